@@ -1,50 +1,133 @@
 import { Context } from 'koishi'
-import { Config } from '../types'
-import { CryptoUtils } from '../utils'
-import { BlackboardClient } from '../core/blackboard'
+import { Config, CourseInfo } from '../types'
+import { CryptoUtils, parseJSON, removeSuffix, convertTimezone, convertToTimestamp, formatRemaining, hasAttempted, getUnifiedUserId } from '../utils'
+import { createBlackboardClient, saveBlackboardSession } from '../core/session'
+import { RateLimiter } from '../core/rate_limiter'
+import { describeError } from '../core/errors'
 import { getIAAAUser, getOrCreateBBConfig } from '../database'
 import { NoticeHandler } from '../core/notice_handler'
 import { CalendarHandler } from '../core/calendar_handler'
+import { GradeHandler } from '../core/grade_handler'
+import { getCourseAlias } from '../core/course_identity'
 
 /**
- * 注册教学网手动查询新通知与日程 DDL 的指令
+ * 注册教学网手动查询新通知与日程 DDL 的指令，rateLimiter 为插件内共享的请求速率限制器
  */
-export function registerCheckCommands(ctx: Context, config: Config) {
+export function registerCheckCommands(ctx: Context, config: Config, rateLimiter: RateLimiter) {
   const crypto = new CryptoUtils(config.encryptionKey)
   const logger = ctx.logger('pku-blackboard-watcher')
 
   // 立即查询自己的新通知和日程 DDL
   ctx.command('blackboard.check', '手动查询是否有新通知和日程 DDL')
+    .userFields(['id'])
     .action(async ({ session }) => {
+      const userId = getUnifiedUserId(session)
       // 检查用户是否已绑定 IAAA 登录信息
-      const iaaaUser = await getIAAAUser(ctx, session.userId)
+      const iaaaUser = await getIAAAUser(ctx, userId)
       if (!iaaaUser) {
         return '您尚未绑定北大 IAAA 账号，请先使用 iaaa.bind 命令进行绑定'
       }
 
-      const bbConfig = await getOrCreateBBConfig(ctx, session.userId)
+      // 手动查询时总是立即回复结果，不进入摘要
+      const bbConfig = { ...await getOrCreateBBConfig(ctx, userId), deliveryMode: 'immediate', notifyPrivate: true }
 
       try {
-        const username = iaaaUser.username
-        const password = crypto.decrypt(iaaaUser.password)
+        // 优先复用保存的教学网会话，过期时才重新登录
+        const client = createBlackboardClient(iaaaUser, crypto, logger, { ...config, rateLimiter })
 
-        const client = new BlackboardClient(username, password, logger)
-        await client.login()
+        // 查询通知时得到的课程列表，成绩处理器直接使用，不再重复获取通知数据
+        let courses: CourseInfo[] | null = null
 
         if (bbConfig.notifyNotice) {
-          const noticeHandler = new NoticeHandler(ctx, session.userId, bbConfig, client, session)
+          const noticeHandler = new NoticeHandler(ctx, userId, bbConfig, client, session)
           await noticeHandler.process()
+          courses = noticeHandler.courses
         }
 
         if (bbConfig.notifyAssignment) {
-          const calendarHandler = new CalendarHandler(ctx, session.userId, bbConfig, client, session)
+          const calendarHandler = new CalendarHandler(ctx, userId, bbConfig, client, session)
           await calendarHandler.process()
         }
 
+        if (bbConfig.notifyGrade) {
+          const gradeHandler = new GradeHandler(ctx, userId, bbConfig, client, session, courses)
+          await gradeHandler.process()
+        }
+
+        await saveBlackboardSession(ctx, userId, client, crypto)
+
         return '新通知和日程 DDL 已查询完成！'
 
       } catch (e) {
-        return `查询过程中发生错误：${e.message}`
+        return `查询过程中发生错误：${describeError(e)}`
+      }
+    })
+
+  // 列出未来若干天内的全部日程 DDL，只读，不影响提醒记录
+  ctx.command('blackboard.ddl [days:number]', '列出未来若干天内的全部日程 DDL')
+    .userFields(['id'])
+    .action(async ({ session }, days = 7) => {
+      const userId = getUnifiedUserId(session)
+      if (!Number.isInteger(days) || days < 1 || days > 30) {
+        return '天数必须是 1 到 30 之间的整数，格式如 blackboard.ddl 7'
+      }
+
+      // 检查用户是否已绑定 IAAA 登录信息
+      const iaaaUser = await getIAAAUser(ctx, userId)
+      if (!iaaaUser) {
+        return '您尚未绑定北大 IAAA 账号，请先使用 iaaa.bind 命令进行绑定'
+      }
+
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+      const aliases = parseJSON(bbConfig.courseAliases, {})
+
+      try {
+        const client = createBlackboardClient(iaaaUser, crypto, logger, { ...config, rateLimiter })
+
+        // 只保留还没有截止的日程，并按截止时间排序
+        const calendarData = await client.getCalendarData(days * 24)
+        const entries = calendarData
+          .filter((entry: any) => convertToTimestamp(entry.endDate) > Date.now())
+          .sort((a: any, b: any) => convertToTimestamp(a.endDate) - convertToTimestamp(b.endDate))
+
+        if (entries.length === 0) {
+          return `未来 ${days} 天内没有需要完成的日程`
+        }
+
+        let text = `未来 ${days} 天内的日程（共 ${entries.length} 项）：`
+
+        for (const [index, entry] of entries.entries()) {
+          const course = removeSuffix(entry.calendarName)
+
+          // 个人事件直接显示标题，作业 DDL 显示课程别名并查询提交状态
+          let name: string
+          let status: string
+          if (course === '个人') {
+            name = entry.title
+            status = '个人事件'
+          } else {
+            const alias = getCourseAlias(aliases, course)
+            const sep = alias.length > 0 ? '：' : ''
+            name = `${alias}${sep}${entry.title}`
+            try {
+              const assignmentHtml = await client.getAssignmentFromCalendar(entry.id)
+              status = hasAttempted(assignmentHtml) ? '已提交' : '未提交'
+            } catch (e) {
+              status = '未知（获取作业页面失败）'
+            }
+          }
+
+          text += `\n\n${index + 1}. ${name}`
+          text += `\n   截止时间：${convertTimezone(entry.endDate)}（剩余 ${formatRemaining(entry.endDate)}）`
+          text += `\n   状态：${status}`
+        }
+
+        await saveBlackboardSession(ctx, userId, client, crypto)
+
+        return text
+
+      } catch (e) {
+        return `查询过程中发生错误：${describeError(e)}`
       }
     })
 }
@@ -1,7 +1,9 @@
 import { Context } from 'koishi'
-import { Config } from '../types'
-import { parseJSON } from '../utils'
-import { getOrCreateBBConfig, upsertBBConfig } from '../database'
+import { Config, CourseInfo } from '../types'
+import { parseJSON, formatHours, getReminderStages, parseReminderStages, isValidClockTime, getUserCheckInterval, convertToTime, getDeliveryRoute, describeDeliveryRoute, getUnifiedUserId } from '../utils'
+import { parseEventRules, formatEventRules, describeEventRules, listEventTypes } from '../core/event_types'
+import { findUnmatchedKeys } from '../core/course_identity'
+import { getOrCreateBBConfig, upsertBBConfig, getIAAAUser, updateNextCheckAt } from '../database'
 
 /**
  * 注册个人配置管理指令
@@ -15,27 +17,53 @@ export function registerConfigCommands(ctx: Context, config: Config) {
 
   // 查看当前配置
   configCmd.subcommand('.info', '查看当前的教学网监听配置')
+    .userFields(['id'])
     .action(async ({ session }) => {
-      const bbConfig = await getOrCreateBBConfig(ctx, session.userId)
+      const userId = getUnifiedUserId(session)
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
 
       // 解析课程别名配置、特定课程需要提醒的事件类型的配置
       const courseAliases = parseJSON(bbConfig.courseAliases, {})
       const specificCourseEvents = parseJSON(bbConfig.specificCourseEvents, {})
-
-      // 解析通知类型
-      const eventTypes = {
-        '1': '作业相关通知',
-        '2': '内容与课件相关通知',
-        '3': '公告等其他通知'
-      }
-      const allowedTypes = bbConfig.generalAllowedEvents.split('').map(num => eventTypes[num]).filter(Boolean)
+      const attachmentCourses = parseJSON(bbConfig.attachmentCourses, {})
 
       let configText = `当前您的教学网监听配置：`
 
       // 通用配置
       configText += `\n\n通用配置：`
 
-      configText += `\n- 每隔 ${config.checkInterval} 分钟检查一次是否有新通知与未完成的 DDL（由管理员统一设置），您也可以分别禁用新通知的检查和日程（DDL）的检查`
+      // 显示检查频率与下一次检查时间
+      const checkInterval = getUserCheckInterval(config, bbConfig)
+      if (checkInterval > 0) {
+        configText += `\n- 每隔 ${checkInterval} 分钟检查一次是否有新通知与未完成的 DDL（${bbConfig.checkInterval ? '自行设置' : '管理员设置的默认值'}）`
+      } else {
+        configText += `\n- 按管理员设置的时间表（cron 表达式 ${config.checkCron}）检查是否有新通知与未完成的 DDL`
+      }
+      if (config.activeHoursStart && config.activeHoursEnd) {
+        configText += `，只在每天 ${config.activeHoursStart} - ${config.activeHoursEnd} 之间检查`
+      }
+      configText += `，您也可以分别禁用新通知的检查和日程（DDL）的检查`
+
+      const iaaaUser = await getIAAAUser(ctx, userId)
+      if (iaaaUser?.nextCheckAt) {
+        configText += `\n- 下一次自动检查时间：${convertToTime(iaaaUser.nextCheckAt.getTime())}`
+      }
+
+      // 显示消息发送方式
+      const deliveryModes = {
+        'immediate': '立即发送',
+        'hourly': '每小时汇总发送一次',
+        'daily': `每天 ${bbConfig.digestTime} 发送一条摘要`
+      }
+      configText += `\n- 消息发送方式：${deliveryModes[bbConfig.deliveryMode] || deliveryModes.immediate}`
+      configText += `\n- 私聊提醒发送到：${describeDeliveryRoute(bbConfig)}`
+
+      // 显示免打扰时段
+      if (bbConfig.quietHoursStart && bbConfig.quietHoursEnd) {
+        configText += `\n- 免打扰时段：${bbConfig.quietHoursStart} - ${bbConfig.quietHoursEnd}（期间的消息会在时段结束后发送，将在时段内截止的 DDL 会在时段开始前提醒）`
+      } else {
+        configText += `\n- 免打扰时段：未设置`
+      }
 
       // 显示课程别名
       if (Object.keys(courseAliases).length > 0) {
@@ -52,18 +80,25 @@ export function registerConfigCommands(ctx: Context, config: Config) {
       if (bbConfig.notifyNotice) {
         configText += `\n- 状态：已启用通知提醒`
         configText += `\n- 提醒消息前缀：${bbConfig.noticeTitlePrefix}`
-        configText += `\n- 需要提醒的通知类型：${allowedTypes.length > 0 ? allowedTypes.join('，') : '无'}`
+        configText += `\n- 提醒消息模板：${bbConfig.noticeTemplate ? '自定义' : '默认'}（使用 blackboard.template 查看）`
+        configText += `\n- 需要提醒的通知类型：${describeEventRules(bbConfig.generalAllowedEvents)}`
 
         // 显示特定课程事件配置
         if (Object.keys(specificCourseEvents).length > 0) {
-          configText += `\n- 特定课程需要提醒的通知类型（优先级高于上面的总体配置）：`
+          configText += `\n- 特定课程需要提醒的通知类型（优先级高于上面的总体配置，没有涉及的类型按总体配置处理）：`
           Object.entries(specificCourseEvents).forEach(([course, events]) => {
-            const courseTypes = events.toString().split('').map(num => eventTypes[num]).filter(Boolean)
-            configText += `\n  ${course}：${courseTypes.join('，')}`
+            configText += `\n  ${course}：${describeEventRules(String(events), true)}`
           })
         } else {
           configText += `\n- 特定课程需要提醒的通知类型：未设置`
         }
+
+        // 显示附件转发配置
+        if (config.maxAttachmentSize > 0 && Object.keys(attachmentCourses).length > 0) {
+          configText += `\n- 转发附件的课程：${Object.keys(attachmentCourses).join('、')}（大小上限 ${Math.min(bbConfig.attachmentMaxSize, config.maxAttachmentSize)} MB）`
+        } else {
+          configText += `\n- 转发附件的课程：未设置`
+        }
       } else {
         configText += `\n- 状态：未启用通知提醒`
       }
@@ -73,17 +108,53 @@ export function registerConfigCommands(ctx: Context, config: Config) {
       if (bbConfig.notifyAssignment) {
         configText += `\n- 状态：已启用日程提醒`
         configText += `\n- 提前提醒时间：${bbConfig.calendarAdvanceHours} 小时（左右）`
+        const stages = getReminderStages(bbConfig.calendarAdvanceHours, bbConfig.calendarReminderStages)
+        configText += `\n- 提醒阶段：截止前 ${stages.map(formatHours).join('、')}（未提交的作业每个阶段都会提醒一次）`
         configText += `\n- 提醒消息前缀：${bbConfig.assignmentTitlePrefix}`
+        configText += `\n- 提醒消息模板：${bbConfig.assignmentTemplate ? '自定义' : '默认'}（使用 blackboard.template 查看）`
       } else {
         configText += `\n- 状态：未启用日程提醒`
       }
 
+      // 成绩提醒配置
+      configText += `\n\n成绩提醒配置：`
+      configText += bbConfig.notifyGrade
+        ? `\n- 状态：已启用成绩提醒（转发到群聊时不显示分数）`
+        : `\n- 状态：未启用成绩提醒，可以在 blackboard.config.set 中启用`
+
+      // 提示不对应任何当前课程的课程设置，课程列表在每次检查通知与使用 blackboard.courses 时更新
+      const courses: CourseInfo[] = parseJSON(bbConfig.courseList, [])
+      if (courses.length > 0) {
+        const unmatched = [...new Set([
+          ...findUnmatchedKeys(Object.keys(courseAliases), courses),
+          ...findUnmatchedKeys(Object.keys(specificCourseEvents), courses),
+          ...findUnmatchedKeys(Object.keys(attachmentCourses), courses)
+        ])]
+        if (unmatched.length > 0) {
+          configText += `\n\n注意：以下课程别名、课程通知或附件转发设置没有对应到您当前的任何课程，可能是课程名有误或课程已结束：${unmatched.join('、')}`
+          configText += `\n可以使用 blackboard.courses 查看当前的课程`
+        }
+      }
+
       return configText
     })
 
+  // 查看所有已知的通知事件类型
+  configCmd.subcommand('.types', '查看可以设置的通知事件类型')
+    .action(() => {
+      let text = `已知的教学网通知事件类型：\n${listEventTypes()}`
+      text += '\n\n设置规则时用逗号分隔多个类型，前缀 - 表示屏蔽该类型；AS:* 表示所有作业通知，* 表示所有通知'
+      return text
+    })
+
   // 交互式配置设置
   configCmd.subcommand('.set', '交互式设置配置参数')
+    .userFields(['id'])
     .action(async ({ session }) => {
+      const userId = getUnifiedUserId(session)
+      // 记录用户修改配置时所在的平台，之后的提醒发送到这里
+      await upsertBBConfig(ctx, userId, getDeliveryRoute(session))
+
       const configOptions = {
         '1': { key: 'courseAliases', name: '课程别名', type: 'json' },
         '2': { key: 'notifyNotice', name: '是否启用通知提醒', type: 'boolean' },
@@ -92,7 +163,12 @@ export function registerConfigCommands(ctx: Context, config: Config) {
         '5': { key: 'specificCourseEvents', name: '特定课程需要提醒的通知类型', type: 'json' },
         '6': { key: 'notifyAssignment', name: '是否启用日程提醒', type: 'boolean' },
         '7': { key: 'calendarAdvanceHours', name: '提前提醒时间', type: 'number' },
-        '8': { key: 'assignmentTitlePrefix', name: '日程提醒消息前缀', type: 'string' }
+        '8': { key: 'assignmentTitlePrefix', name: '日程提醒消息前缀', type: 'string' },
+        '9': { key: 'calendarReminderStages', name: '额外的提醒阶段', type: 'stages' },
+        '10': { key: 'deliveryMode', name: '消息发送方式', type: 'delivery' },
+        '11': { key: 'quietHours', name: '免打扰时段', type: 'quiet' },
+        '12': { key: 'checkInterval', name: '检查频率', type: 'interval' },
+        '13': { key: 'notifyGrade', name: '是否启用成绩提醒', type: 'boolean' }
       }
 
       // 1. 显示配置选项
@@ -129,10 +205,10 @@ export function registerConfigCommands(ctx: Context, config: Config) {
           }
 
           if (boolValue.toLowerCase() === 'yes' || boolValue.toLowerCase() === 'y') {
-            await upsertBBConfig(ctx, session.userId, { [selectedOption.key]: true })
+            await upsertBBConfig(ctx, userId, { [selectedOption.key]: true })
             return `已启用 ${selectedOption.name.slice(4)}`
           } else if (boolValue.toLowerCase() === 'no' || boolValue.toLowerCase() === 'n') {
-            await upsertBBConfig(ctx, session.userId, { [selectedOption.key]: false })
+            await upsertBBConfig(ctx, userId, { [selectedOption.key]: false })
             return `已禁用 ${selectedOption.name.slice(4)}`
           } else {
             return '输入无效，请重新运行命令 blackboard.config.set'
@@ -147,7 +223,7 @@ export function registerConfigCommands(ctx: Context, config: Config) {
             return '已退出配置设置'
           }
 
-          await upsertBBConfig(ctx, session.userId, { [selectedOption.key]: stringValue })
+          await upsertBBConfig(ctx, userId, { [selectedOption.key]: stringValue })
           return `已设置 ${selectedOption.name} 为：'${stringValue}'`
 
         case 'number':
@@ -164,17 +240,129 @@ export function registerConfigCommands(ctx: Context, config: Config) {
             return '输入的整数必须在 3 到 48 之间，请重新运行 blackboard.config.set'
           }
 
-          await upsertBBConfig(ctx, session.userId, { [selectedOption.key]: num })
+          await upsertBBConfig(ctx, userId, { [selectedOption.key]: num })
           return `已设置 ${selectedOption.name} 为：${num} 小时`
 
+        case 'stages':
+          promptMessage += '请输入截止前需要额外提醒的若干小时数（用逗号分隔，每个在 0.25 到 168 之间，可以是小数）\n'
+          promptMessage += '这些阶段会与 "提前提醒时间" 一起生效，未提交的作业在每个阶段都会提醒一次\n\n'
+          promptMessage += '示例：回复 "72,3,0.5" 表示额外在截止前 72 小时、3 小时、30 分钟提醒\n\n'
+          promptMessage += '回复 clear 清空额外的提醒阶段\n'
+          promptMessage += '回复 quit 退出设置'
+          await session.send(promptMessage)
+
+          const stagesValue = await session.prompt(30000)
+          if (!stagesValue || stagesValue.toLowerCase() === 'quit') {
+            return '已退出配置设置'
+          }
+
+          if (stagesValue.toLowerCase() === 'clear') {
+            await upsertBBConfig(ctx, userId, { [selectedOption.key]: '' })
+            return `已清空 ${selectedOption.name}`
+          }
+
+          const stages = parseReminderStages(stagesValue.trim())
+          if (stages.length === 0 || stages.some(hours => hours < 0.25 || hours > 168)) {
+            return '每个提醒阶段必须是 0.25 到 168 之间的数，请重新运行 blackboard.config.set'
+          }
+
+          await upsertBBConfig(ctx, userId, { [selectedOption.key]: stages.join(',') })
+          return `已设置 ${selectedOption.name} 为：截止前 ${stages.map(formatHours).join('、')}`
+
+        case 'delivery':
+          promptMessage += '请选择消息发送方式：\n'
+          promptMessage += '1 - 立即发送，每条提醒单独一条消息\n'
+          promptMessage += '2 - 每小时汇总发送一次\n'
+          promptMessage += '3 - 每天在指定时间发送一条摘要\n\n'
+          promptMessage += '回复 quit 退出设置'
+          await session.send(promptMessage)
+
+          const modeValue = await session.prompt(30000)
+          if (!modeValue || modeValue.toLowerCase() === 'quit') {
+            return '已退出配置设置'
+          }
+
+          const mode = { '1': 'immediate', '2': 'hourly', '3': 'daily' }[modeValue.trim()]
+          if (!mode) {
+            return '选择无效，请重新运行命令 blackboard.config.set'
+          }
+
+          if (mode !== 'daily') {
+            await upsertBBConfig(ctx, userId, { deliveryMode: mode })
+            return mode === 'immediate' ? '已设置为立即发送提醒消息' : '已设置为每小时汇总发送一次提醒消息'
+          }
+
+          await session.send('请输入每天发送摘要的时间（24 小时制，格式如 21:00）\n回复 quit 退出设置')
+
+          const timeValue = await session.prompt(30000)
+          if (!timeValue || timeValue.toLowerCase() === 'quit') {
+            return '已退出配置设置'
+          }
+
+          const digestTime = timeValue.trim().replace('：', ':')
+          if (!isValidClockTime(digestTime)) {
+            return '时间格式无效，请重新运行命令 blackboard.config.set'
+          }
+
+          await upsertBBConfig(ctx, userId, { deliveryMode: mode, digestTime: digestTime.padStart(5, '0') })
+          return `已设置为每天 ${digestTime.padStart(5, '0')} 发送一条摘要`
+
+        case 'quiet':
+          promptMessage += '请输入免打扰时段（24 小时制，格式如 23:00-07:00）\n'
+          promptMessage += '时段内产生的消息会在时段结束后再发送，将在时段内截止的 DDL 会在时段开始前提醒\n\n'
+          promptMessage += '回复 off 关闭免打扰\n'
+          promptMessage += '回复 quit 退出设置'
+          await session.send(promptMessage)
+
+          const quietValue = await session.prompt(30000)
+          if (!quietValue || quietValue.toLowerCase() === 'quit') {
+            return '已退出配置设置'
+          }
+
+          if (quietValue.toLowerCase() === 'off') {
+            await upsertBBConfig(ctx, userId, { quietHoursStart: '', quietHoursEnd: '' })
+            return '已关闭免打扰时段'
+          }
+
+          const [quietStart, quietEnd] = quietValue.trim().replace(/：/g, ':').split(/\s*[-~—]\s*/)
+          if (!quietStart || !quietEnd || !isValidClockTime(quietStart) || !isValidClockTime(quietEnd) || quietStart === quietEnd) {
+            return '时段格式无效，请重新运行命令 blackboard.config.set'
+          }
+
+          await upsertBBConfig(ctx, userId, {
+            quietHoursStart: quietStart.padStart(5, '0'),
+            quietHoursEnd: quietEnd.padStart(5, '0')
+          })
+          return `已设置免打扰时段为：${quietStart.padStart(5, '0')} - ${quietEnd.padStart(5, '0')}`
+
+        case 'interval':
+          promptMessage += `请输入每隔多少分钟自动检查一次（${config.minCheckInterval} 到 ${config.maxCheckInterval} 之间的整数）\n`
+          promptMessage += '回复 default 使用管理员设置的默认频率\n'
+          promptMessage += '回复 quit 退出设置'
+          await session.send(promptMessage)
+
+          const intervalValue = await session.prompt(30000)
+          if (!intervalValue || intervalValue.toLowerCase() === 'quit') {
+            return '已退出配置设置'
+          }
+
+          const interval = intervalValue.toLowerCase() === 'default' ? 0 : Number(intervalValue.trim())
+          if (interval !== 0 && (!Number.isInteger(interval) || interval < config.minCheckInterval || interval > config.maxCheckInterval)) {
+            return `检查间隔必须是 ${config.minCheckInterval} 到 ${config.maxCheckInterval} 之间的整数，请重新运行 blackboard.config.set`
+          }
+
+          // 清除已经安排的下一次检查时间，下一次定时检查时按新的频率重新安排
+          await upsertBBConfig(ctx, userId, { checkInterval: interval })
+          await updateNextCheckAt(ctx, userId, null)
+          return interval === 0 ? '已恢复使用管理员设置的默认检查频率' : `已设置为每隔 ${interval} 分钟自动检查一次`
+
         case 'events':
-          promptMessage += '请选择需要提醒的通知类型（可组合）：\n'
-          promptMessage += '1 - 作业相关通知\n'
-          promptMessage += '2 - 内容与课件相关通知\n'
-          promptMessage += '3 - 公告等其他通知\n\n'
+          promptMessage += '请输入需要提醒的通知事件类型，用逗号分隔，前缀 - 表示屏蔽该类型\n'
+          promptMessage += '可以使用具体的事件类型、某一组类型（如 AS:* 表示所有作业通知）或 * 表示所有通知，越具体的规则优先级越高\n\n'
+          promptMessage += `已知的事件类型：\n${listEventTypes()}\n\n`
           promptMessage += '示例：\n'
-          promptMessage += '回复 "13" 表示只提醒作业和公告\n'
-          promptMessage += '回复 "123" 表示提醒所有类型\n'
+          promptMessage += '回复 "AS:*,AN:AN_AVAIL" 表示只提醒作业和课程公告\n'
+          promptMessage += '回复 "*,-AS:OVERDUE" 表示提醒除作业逾期以外的所有通知\n'
           promptMessage += '回复 quit 退出设置'
           await session.send(promptMessage)
 
@@ -183,20 +371,14 @@ export function registerConfigCommands(ctx: Context, config: Config) {
             return '已退出配置设置'
           }
 
-          const events = eventsValue.trim()
-          if (!/^[123]+$/.test(events) || events.length === 0) {
-            return '只能输入数字 1、2、3 的组合，请重新运行 blackboard.config.set'
+          const rules = parseEventRules(eventsValue)
+          if (!rules || rules.length === 0) {
+            return '通知事件类型规则格式无效，请重新运行 blackboard.config.set'
           }
 
-          await upsertBBConfig(ctx, session.userId, { [selectedOption.key]: events })
-
-          const eventTypes = {
-            '1': '作业相关通知',
-            '2': '内容与课件相关通知',
-            '3': '公告等其他通知'
-          }
-          const selectedTypes = events.split('').map(num => eventTypes[num]).join('，')
-          return `已设置全局通知类型为：${selectedTypes}`
+          const events = formatEventRules(rules)
+          await upsertBBConfig(ctx, userId, { [selectedOption.key]: events })
+          return `已设置全局通知类型为：${describeEventRules(events)}`
 
         case 'json':
           if (selectedOption.key === 'courseAliases') {
@@ -208,8 +390,8 @@ export function registerConfigCommands(ctx: Context, config: Config) {
           } else if (selectedOption.key === 'specificCourseEvents') {
             promptMessage += '特定课程通知类型设置格式说明（优先级高于全局设置）：\n\n'
             promptMessage += '请输入 JSON 格式的课程通知配置\n'
-            promptMessage += '示例：{"高等数学": "1", "计算机系统导论": "13"}\n'
-            promptMessage += '（1：作业相关通知，2：内容与课件相关通知，3：公告等其他通知）\n\n'
+            promptMessage += '示例：{"高等数学": "-CO:*", "计算机系统导论": "AS:*,-AS:OVERDUE"}\n'
+            promptMessage += '（规则格式与需要提醒的通知类型相同，没有涉及的类型按全局设置处理，使用 blackboard.config.types 查看所有事件类型）\n\n'
             promptMessage += '回复 clear 清空所有配置\n'
             promptMessage += '回复 quit 退出设置'
           }
@@ -221,13 +403,25 @@ export function registerConfigCommands(ctx: Context, config: Config) {
           }
 
           if (jsonValue.toLowerCase() === 'clear') {
-            await upsertBBConfig(ctx, session.userId, { [selectedOption.key]: '{}' })
+            await upsertBBConfig(ctx, userId, { [selectedOption.key]: '{}' })
             return `已清空 ${selectedOption.name} 配置`
           }
 
           try {
             const parsed = JSON.parse(jsonValue.trim())
-            await upsertBBConfig(ctx, session.userId, { [selectedOption.key]: JSON.stringify(parsed) })
+
+            // 校验并规范化每门课程的事件类型规则
+            if (selectedOption.key === 'specificCourseEvents') {
+              for (const [course, events] of Object.entries(parsed)) {
+                const rules = parseEventRules(String(events), true)
+                if (!rules) {
+                  return `课程 ${course} 的通知事件类型规则格式无效，请重新运行 blackboard.config.set`
+                }
+                parsed[course] = formatEventRules(rules)
+              }
+            }
+
+            await upsertBBConfig(ctx, userId, { [selectedOption.key]: JSON.stringify(parsed) })
             return `已更新 ${selectedOption.name} 配置`
           } catch (e) {
             return '无效的 JSON 格式，请重新运行命令 blackboard.config.set'
@@ -0,0 +1,75 @@
+import { Context } from 'koishi'
+import { Config, BlackboardWatcherConfig, CourseInfo } from '../types'
+import { CryptoUtils, parseJSON, getUnifiedUserId } from '../utils'
+import { createBlackboardClient, saveBlackboardSession } from '../core/session'
+import { RateLimiter } from '../core/rate_limiter'
+import { describeError } from '../core/errors'
+import { describeEventRules } from '../core/event_types'
+import { findCourseValue } from '../core/course_identity'
+import { getIAAAUser, getOrCreateBBConfig, upsertBBConfig } from '../database'
+
+/**
+ * 描述某门课程实际生效的通知设置
+ */
+function describeCourseSettings(bbConfig: BlackboardWatcherConfig, course: CourseInfo): string {
+  if (!bbConfig.notifyNotice) {
+    return '未启用通知提醒'
+  }
+
+  const specificEvents = parseJSON(bbConfig.specificCourseEvents, {})
+  const courseRules = findCourseValue(specificEvents, course.name, course.id)
+  if (courseRules === undefined) {
+    return `${describeEventRules(bbConfig.generalAllowedEvents)}（全局设置）`
+  }
+  if (courseRules === '-*') {
+    return '已屏蔽所有通知'
+  }
+  return `${describeEventRules(String(courseRules), true)}（课程设置，没有涉及的类型按全局设置）`
+}
+
+/**
+ * 注册课程列表相关指令，rateLimiter 为插件内共享的请求速率限制器
+ */
+export function registerCourseCommands(ctx: Context, config: Config, rateLimiter: RateLimiter) {
+  const crypto = new CryptoUtils(config.encryptionKey)
+  const logger = ctx.logger('pku-blackboard-watcher')
+
+  ctx.command('blackboard.courses', '列出当前的课程，以及每门课程的别名和通知设置')
+    .userFields(['id'])
+    .action(async ({ session }) => {
+      const userId = getUnifiedUserId(session)
+      const iaaaUser = await getIAAAUser(ctx, userId)
+      if (!iaaaUser) {
+        return '您尚未绑定北大 IAAA 账号，请先使用 iaaa.bind 命令进行绑定'
+      }
+
+      // 从教学网获取最新的课程列表
+      let courses: CourseInfo[]
+      try {
+        const client = createBlackboardClient(iaaaUser, crypto, logger, { ...config, rateLimiter })
+        courses = await client.getCourseList()
+        await saveBlackboardSession(ctx, userId, client, crypto)
+      } catch (e) {
+        return `获取课程列表时发生错误：${describeError(e)}`
+      }
+
+      if (courses.length === 0) {
+        return '教学网上没有找到您当前的课程'
+      }
+
+      // 保存本次列出的课程，之后的配置指令按这里的序号解析课程
+      await upsertBBConfig(ctx, userId, { courseList: JSON.stringify(courses) })
+
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+      const aliases = parseJSON(bbConfig.courseAliases, {})
+
+      let text = '您当前的课程：'
+      courses.forEach((course, index) => {
+        const alias = findCourseValue(aliases, course.name, course.id)
+        text += `\n${index + 1}. ${course.name}${alias ? `（别名：${alias}）` : ''}`
+        text += `\n   通知：${describeCourseSettings(bbConfig, course)}`
+      })
+      text += '\n\n在 blackboard.alias.add、blackboard.events、blackboard.mute 等指令中可以用序号代替课程名，如 blackboard.alias.add 1 高数'
+      return text
+    })
+}
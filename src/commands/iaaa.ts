@@ -1,13 +1,16 @@
 import { Context } from 'koishi'
 import { Config } from '../types'
-import { CryptoUtils } from '../utils'
+import { CryptoUtils, convertToTime, getDeliveryRoute, getUnifiedUserId } from '../utils'
 import { BlackboardClient } from '../core/blackboard'
-import { getIAAAUser, upsertIAAAUser } from '../database'
+import { saveBlackboardSession } from '../core/session'
+import { RateLimiter } from '../core/rate_limiter'
+import { describeError } from '../core/errors'
+import { getIAAAUser, upsertIAAAUser, upsertBBConfig } from '../database'
 
 /**
- * 注册 IAAA 认证相关指令
+ * 注册 IAAA 认证相关指令，rateLimiter 为插件内共享的请求速率限制器
  */
-export function registerIAAACommands(ctx: Context, config: Config) {
+export function registerIAAACommands(ctx: Context, config: Config, rateLimiter: RateLimiter) {
   const crypto = new CryptoUtils(config.encryptionKey)
   const logger = ctx.logger('pku-blackboard-watcher')
 
@@ -16,39 +19,59 @@ export function registerIAAACommands(ctx: Context, config: Config) {
 
   // 绑定 IAAA 账号
   iaaaCmd.subcommand('.bind <username> <password>', '绑定北大 IAAA 账号')
+    .userFields(['id'])
     .action(async ({ session }, username, password) => {
+      const userId = getUnifiedUserId(session)
       if (!username || !password) {
         return '请在指令后提供学号和密码，格式如 iaaa.bind 2800011451 pswd1234'
       }
 
       // 测试使用用户提供的学号和密码能否在 IAAA 平台上登录
-      let success = false;
+      const client = new BlackboardClient(username, password, logger, { ...config, rateLimiter })
       try {
-        const client = new BlackboardClient(username, password, logger)
-        success = await client.login()
+        await client.login()
       } catch (e) {
-        return `IAAA 登录过程中发生错误: ${e.message}`
+        return describeError(e)
       }
 
-      if (!success) {
-        return 'IAAA 登录失败，请检查您的学号和密码是否正确'
-      }
+      // 更新认证信息（加密密码），同时清除之前的登录失败记录
+      const previous = await getIAAAUser(ctx, userId)
+      await upsertIAAAUser(ctx, userId, username, crypto.encrypt(password))
+
+      // 之后的自动提醒都通过用户本次绑定时所在的平台与机器人发送
+      await upsertBBConfig(ctx, userId, getDeliveryRoute(session))
 
-      // 更新认证信息（加密密码）
-      await upsertIAAAUser(ctx, session.userId, username, crypto.encrypt(password))
+      // 保存本次登录得到的教学网会话，之后的查询可以直接复用
+      await saveBlackboardSession(ctx, userId, client, crypto)
 
+      if (previous?.suspended) {
+        return 'IAAA 账号绑定成功！系统会安全加密存储您的密码，已恢复为您自动查询'
+      }
       return 'IAAA 账号绑定成功！系统会安全加密存储您的密码'
     })
 
   // 查询自己的绑定信息
   iaaaCmd.subcommand('.info', '查询已绑定的 IAAA 账号信息')
+    .userFields(['id'])
     .action(async ({ session }) => {
-      const iaaaUser = await getIAAAUser(ctx, session.userId)
+      const userId = getUnifiedUserId(session)
+      const iaaaUser = await getIAAAUser(ctx, userId)
 
       if (!iaaaUser) {
         return '您尚未绑定 IAAA 账号，请使用 iaaa.bind 命令进行绑定'
       }
 
-      return `您已绑定 IAAA 账号，学号为 ${iaaaUser.username}`
+      let text = `您已绑定 IAAA 账号，学号为 ${iaaaUser.username}`
+      if (iaaaUser.suspended) {
+        text += `\n账号状态：连续 ${iaaaUser.authFailures} 次登录失败，已暂停自动查询，请使用 iaaa.bind 重新绑定`
+      } else if (iaaaUser.authFailures > 0) {
+        text += `\n账号状态：连续 ${iaaaUser.authFailures} 次登录失败，请检查是否修改过密码，必要时使用 iaaa.bind 重新绑定`
+      } else {
+        text += '\n账号状态：正常'
+      }
+      if (iaaaUser.authFailures > 0 && iaaaUser.lastAuthFailureAt) {
+        text += `\n最近一次失败：${convertToTime(iaaaUser.lastAuthFailureAt.getTime())}（${iaaaUser.lastAuthError}）`
+      }
+      return text
     })
 }
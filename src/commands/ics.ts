@@ -0,0 +1,44 @@
+import { Context, h } from 'koishi'
+import { randomBytes } from 'crypto'
+import { Config } from '../types'
+import { getUnifiedUserId } from '../utils'
+import { getAssignmentRecords, getOrCreateBBConfig, upsertBBConfig } from '../database'
+import { generateICS } from '../core/icalendar'
+
+/**
+ * 注册日历导出与订阅相关指令
+ */
+export function registerICSCommands(ctx: Context, config: Config) {
+  ctx.command('blackboard.ics', '导出教学网日程 DDL 的 iCalendar 日历文件')
+    .option('url', '-u 获取可在手机或电脑日历中订阅的链接')
+    .option('reset', '-r 重新生成订阅链接（旧链接将失效）')
+    .userFields(['id'])
+    .action(async ({ session, options }) => {
+      const userId = getUnifiedUserId(session)
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+
+      // 获取订阅链接
+      if (options.url || options.reset) {
+        if (!config.icsFeed || !ctx.get('server')) {
+          return '管理员未启用日历订阅链接，您可以直接使用 blackboard.ics 导出日历文件'
+        }
+
+        let token = bbConfig.icsToken
+        if (!token || options.reset) {
+          token = randomBytes(16).toString('hex')
+          await upsertBBConfig(ctx, userId, { icsToken: token })
+        }
+
+        return `您的日历订阅链接（请勿分享给他人）：\n${ctx.get('server').selfUrl}/blackboard/ics/${token}.ics`
+      }
+
+      // 由数据库中保存的日程记录生成日历文件
+      const records = await getAssignmentRecords(ctx, userId)
+      if (!records.some(record => record.assignmentId !== '%init%' && record.endDate)) {
+        return '还没有记录到任何日程，请确认已启用日程提醒，并在下一次查询后再试'
+      }
+
+      const ics = generateICS(records, bbConfig)
+      return h.file(Buffer.from(ics, 'utf8'), 'text/calendar', { title: 'blackboard.ics' })
+    })
+}
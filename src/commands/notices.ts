@@ -0,0 +1,149 @@
+import { Context, h } from 'koishi'
+import { Config, NoticeRecord } from '../types'
+import { parseJSON, parseLocalTime, getUnifiedUserId } from '../utils'
+import { getEventLabel, parseEventRules, matchEventRules } from '../core/event_types'
+import { getCourseAlias, findCourseValue } from '../core/course_identity'
+import { getNoticeRecords, getOrCreateBBConfig } from '../database'
+
+// 每页显示的通知条数
+const PAGE_SIZE = 5
+
+/**
+ * 按发布时间从新到旧排列已记录的通知，并去除初始化标记记录
+ */
+function sortNoticeRecords(records: NoticeRecord[]): NoticeRecord[] {
+  return records
+    .filter(record => record.noticeId !== '%init%')
+    .sort((a, b) => parseLocalTime(b.time) - parseLocalTime(a.time))
+}
+
+/**
+ * 将一页通知记录格式化为消息文本
+ */
+function formatNoticePage(records: NoticeRecord[], page: number, aliases: Record<string, string>, header: string): string {
+  const totalPages = Math.ceil(records.length / PAGE_SIZE)
+  if (page > totalPages) {
+    return `${header}共 ${records.length} 条，只有 ${totalPages} 页`
+  }
+
+  let text = `${header}共 ${records.length} 条（第 ${page}/${totalPages} 页）：`
+
+  const start = (page - 1) * PAGE_SIZE
+  records.slice(start, start + PAGE_SIZE).forEach((record, index) => {
+    const course = getCourseAlias(aliases, record.course, record.courseId)
+    const sep = course.length > 0 ? '：' : ''
+    text += `\n\n${start + index + 1}. ${course}${sep}${record.title}`
+    text += `\n发布时间：${record.time}（${getEventLabel(record.event)}）`
+    if (record.content) {
+      // 内容中的 < 与 & 等字符需要转义，避免被当作消息元素解析
+      text += `\n${h.escape(record.content)}`
+    }
+  })
+
+  if (page < totalPages) {
+    text += `\n\n使用 -p ${page + 1} 查看下一页`
+  }
+
+  return text
+}
+
+/**
+ * 注册已记录通知的浏览与搜索指令
+ */
+export function registerNoticeCommands(ctx: Context, config: Config) {
+  // 按条件浏览已记录的通知
+  ctx.command('blackboard.notices', '浏览已记录的历史通知')
+    .option('course', '-c <course:string> 按课程名或别名筛选')
+    .option('type', '-t <type:string> 按通知事件类型筛选（如 AS:* 或 AN:AN_AVAIL，用逗号分隔）')
+    .option('from', '-f <date:string> 起始日期，如 2025-03-01')
+    .option('to', '-e <date:string> 结束日期，如 2025-03-31')
+    .option('page', '-p <page:posint> 页码', { fallback: 1 })
+    .userFields(['id'])
+    .action(async ({ session, options }) => {
+      const userId = getUnifiedUserId(session)
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+      const aliases: Record<string, string> = parseJSON(bbConfig.courseAliases, {})
+
+      let records = sortNoticeRecords(await getNoticeRecords(ctx, userId))
+
+      // 按课程名或别名筛选
+      if (options.course) {
+        const keyword = options.course.toLowerCase()
+        records = records.filter(record => {
+          const alias = findCourseValue(aliases, record.course, record.courseId) || ''
+          return record.course.toLowerCase().includes(keyword) || alias.toLowerCase().includes(keyword)
+        })
+      }
+
+      // 按通知类型筛选
+      if (options.type) {
+        const rules = parseEventRules(options.type)
+        if (!rules) {
+          return '通知事件类型格式无效，请使用 blackboard.config.types 查看可以筛选的事件类型'
+        }
+        records = records.filter(record => matchEventRules(rules, record.event))
+      }
+
+      // 按发布日期范围筛选
+      if (options.from) {
+        const from = parseLocalTime(options.from.trim())
+        if (isNaN(from)) {
+          return '起始日期格式无效，格式如 2025-03-01'
+        }
+        records = records.filter(record => parseLocalTime(record.time) >= from)
+      }
+      if (options.to) {
+        const to = parseLocalTime(options.to.trim())
+        if (isNaN(to)) {
+          return '结束日期格式无效，格式如 2025-03-31'
+        }
+        records = records.filter(record => parseLocalTime(record.time) < to + 86400000)
+      }
+
+      if (records.length === 0) {
+        return '没有找到符合条件的通知'
+      }
+
+      return formatNoticePage(records, options.page, aliases, '符合条件的通知')
+    })
+
+  // 在已记录通知的标题和内容中搜索关键词
+  ctx.command('blackboard.search <keyword:text>', '在历史通知的标题和内容中搜索关键词')
+    .option('page', '-p <page:posint> 页码', { fallback: 1 })
+    .userFields(['id'])
+    .action(async ({ session, options }, keyword) => {
+      const userId = getUnifiedUserId(session)
+      if (!keyword || !keyword.trim()) {
+        return '请在指令后提供要搜索的关键词，格式如 blackboard.search 期中'
+      }
+
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+      const aliases = parseJSON(bbConfig.courseAliases, {})
+
+      const lowerKeyword = keyword.trim().toLowerCase()
+      const records = sortNoticeRecords(await getNoticeRecords(ctx, userId))
+        .filter(record => record.title.toLowerCase().includes(lowerKeyword) || record.content.toLowerCase().includes(lowerKeyword))
+
+      if (records.length === 0) {
+        return `没有找到包含 "${keyword.trim()}" 的通知`
+      }
+
+      return formatNoticePage(records, options.page, aliases, `包含 "${keyword.trim()}" 的通知`)
+    })
+
+  // 查看某条通知被提醒或屏蔽的原因
+  ctx.command('blackboard.notices.why <index:posint>', '查看某条历史通知被提醒或屏蔽的原因')
+    .userFields(['id'])
+    .action(async ({ session }, index) => {
+      const userId = getUnifiedUserId(session)
+      const records = sortNoticeRecords(await getNoticeRecords(ctx, userId))
+
+      const record = records[(index ?? 0) - 1]
+      if (!record) {
+        return '没有对应序号的通知，序号与不加筛选条件时 blackboard.notices 列出的序号相同'
+      }
+
+      const result = record.shouldNotify ? '已提醒' : '未提醒'
+      return `${record.course ? record.course + '：' : ''}${record.title}\n${result}，原因：${record.trace || '没有记录（该通知在记录原因的功能加入之前处理）'}`
+    })
+}
@@ -0,0 +1,82 @@
+import { Context } from 'koishi'
+import { Config } from '../types'
+import { getUnifiedUserId } from '../utils'
+import { getNoticeRules, createNoticeRule, removeNoticeRule } from '../database'
+import { ruleFields, validateRulePattern, sortNoticeRules, describeRule } from '../core/notice_rules'
+
+/**
+ * 注册通知过滤规则相关指令
+ */
+export function registerRuleCommands(ctx: Context, config: Config) {
+  // 按优先级列出所有规则
+  ctx.command('blackboard.rules', '查看通知过滤规则（按关键词或正则表达式提醒或屏蔽通知）')
+    .userFields(['id'])
+    .action(async ({ session }) => {
+      const userId = getUnifiedUserId(session)
+      const rules = sortNoticeRules(await getNoticeRules(ctx, userId))
+
+      if (rules.length === 0) {
+        return '您还没有设置通知过滤规则，使用 blackboard.rules.add 可以添加'
+      }
+
+      let text = '您的通知过滤规则（按顺序匹配，第一条匹配的规则决定是否提醒，都不匹配时按通知类型设置处理）：'
+      rules.forEach((rule, index) => {
+        text += `\n${index + 1}. [优先级 ${rule.priority}] ${describeRule(rule)}`
+      })
+      text += '\n\n使用 blackboard.rules.remove <序号> 可以删除规则'
+      return text
+    })
+
+  // 添加规则
+  ctx.command('blackboard.rules.add <pattern:text>', '添加通知过滤规则')
+    .option('exclude', '-x 屏蔽匹配的通知（默认为总是提醒）')
+    .option('field', '-f <field:string> 匹配的字段（title：标题，content：内容，course：课程名或别名，all：全部，默认为 all）', { fallback: 'all' })
+    .option('regex', '-r 把匹配内容作为正则表达式')
+    .option('priority', '-p <priority:integer> 优先级，数字越小越先匹配（默认排在已有规则之后）')
+    .userFields(['id'])
+    .action(async ({ session, options }, pattern) => {
+      const userId = getUnifiedUserId(session)
+      if (!pattern) {
+        return '请提供要匹配的关键词或正则表达式，如 blackboard.rules.add -f title 期中'
+      }
+
+      const field = options.field.toLowerCase()
+      if (!(field in ruleFields)) {
+        return '匹配的字段只能是 title、content、course 或 all'
+      }
+
+      const error = validateRulePattern(pattern, !!options.regex)
+      if (error) {
+        return error
+      }
+
+      const rules = await getNoticeRules(ctx, userId)
+      const priority = options.priority ?? (rules.length > 0 ? Math.max(...rules.map(rule => rule.priority)) + 1 : 0)
+      const rule = {
+        priority,
+        action: options.exclude ? 'exclude' as const : 'include' as const,
+        field: field as keyof typeof ruleFields,
+        pattern,
+        isRegex: !!options.regex
+      }
+      await createNoticeRule(ctx, userId, rule)
+
+      return `已添加规则（优先级 ${priority}）：${describeRule({ ...rule, id: 0, userId, createdAt: new Date() })}`
+    })
+
+  // 删除规则
+  ctx.command('blackboard.rules.remove <index:posint>', '删除通知过滤规则')
+    .userFields(['id'])
+    .action(async ({ session }, index) => {
+      const userId = getUnifiedUserId(session)
+      const rules = sortNoticeRules(await getNoticeRules(ctx, userId))
+
+      const rule = rules[(index ?? 0) - 1]
+      if (!rule) {
+        return '没有对应序号的规则，请使用 blackboard.rules 查看'
+      }
+
+      await removeNoticeRule(ctx, rule.id)
+      return `已删除规则：${describeRule(rule)}`
+    })
+}
@@ -0,0 +1,265 @@
+import { Context } from 'koishi'
+import { Config, BlackboardWatcherConfig } from '../types'
+import { parseJSON, getUnifiedUserId, resolveCourseKey } from '../utils'
+import { getOrCreateBBConfig, upsertBBConfig } from '../database'
+import { parseEventRules, formatEventRules, describeEventRules } from '../core/event_types'
+import { matchCourseKey } from '../core/course_identity'
+
+/**
+ * 修改用户配置中以 json 保存的课程映射（课程别名、特定课程的通知类型、转发附件的课程），只改动给定的课程，其他课程保持不变
+ */
+async function updateCourseMap(ctx: Context, userId: string, key: 'courseAliases' | 'specificCourseEvents' | 'attachmentCourses', update: (map: Record<string, any>) => void): Promise<void> {
+  const bbConfig = await getOrCreateBBConfig(ctx, userId)
+  const map = parseJSON(bbConfig[key], {})
+  update(map)
+  await upsertBBConfig(ctx, userId, { [key]: JSON.stringify(map) })
+}
+
+/**
+ * 把指令中的课程参数（课程名或 blackboard.courses 列出的序号）解析为配置使用的课程名
+ */
+async function resolveCourse(ctx: Context, userId: string, course: string): Promise<string | null> {
+  return resolveCourseKey(await getOrCreateBBConfig(ctx, userId), course)
+}
+
+// 课程序号无效时的提示
+const invalidIndexMessage = '课程序号无效，请先使用 blackboard.courses 查看当前课程的序号'
+
+/**
+ * 注册非交互式的单项配置指令，每条指令只修改一项配置
+ */
+export function registerSettingCommands(ctx: Context, config: Config) {
+  // 查看与设置课程别名
+  ctx.command('blackboard.alias', '查看课程别名')
+    .userFields(['id'])
+    .action(async ({ session }) => {
+      const userId = getUnifiedUserId(session)
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+      const aliases = parseJSON(bbConfig.courseAliases, {})
+      if (Object.keys(aliases).length === 0) {
+        return '您还没有设置课程别名，使用 blackboard.alias.add <课程名> <别名> 可以添加'
+      }
+      return '您的课程别名：\n' + Object.entries(aliases).map(([course, alias]) => `${course} → ${alias}`).join('\n')
+    })
+
+  ctx.command('blackboard.alias.add <course:string> <alias:text>', '设置课程别名（课程可以是 blackboard.courses 列出的序号）')
+    .userFields(['id'])
+    .action(async ({ session }, course, alias) => {
+      const userId = getUnifiedUserId(session)
+      if (!course?.trim() || !alias?.trim()) {
+        return '请提供课程名和别名，格式如 blackboard.alias.add 计算机系统导论 ICS'
+      }
+
+      const key = await resolveCourse(ctx, userId, course)
+      if (!key) {
+        return invalidIndexMessage
+      }
+      await updateCourseMap(ctx, userId, 'courseAliases', (aliases) => {
+        aliases[key] = alias.trim()
+      })
+      return `已设置课程别名：${key} → ${alias.trim()}`
+    })
+
+  ctx.command('blackboard.alias.remove <course:text>', '删除课程别名（可以提供课程名或别名）')
+    .userFields(['id'])
+    .action(async ({ session }, course) => {
+      const userId = getUnifiedUserId(session)
+      if (!course?.trim()) {
+        return '请提供要删除别名的课程名或别名'
+      }
+
+      const keyword = await resolveCourse(ctx, userId, course)
+      if (!keyword) {
+        return invalidIndexMessage
+      }
+      let removed = ''
+      await updateCourseMap(ctx, userId, 'courseAliases', (aliases) => {
+        removed = Object.keys(aliases).find(key => aliases[key].toLowerCase() === keyword) || matchCourseKey(Object.keys(aliases), keyword) || ''
+        if (removed) delete aliases[removed]
+      })
+      return removed ? `已删除课程 ${removed} 的别名` : `没有找到课程名或别名为 ${course.trim()} 的别名设置`
+    })
+
+  // 为单门课程设置通知类型规则
+  ctx.command('blackboard.events <course:string> <types:text>', '为某门课程设置需要提醒或屏蔽的通知事件类型（types 为 default 时恢复使用全局设置）')
+    .userFields(['id'])
+    .action(async ({ session }, course, types) => {
+      const userId = getUnifiedUserId(session)
+      if (!course?.trim() || !types?.trim()) {
+        return '请提供课程名和通知事件类型规则，格式如 blackboard.events 高等数学 "-CO:*"（以 - 开头的规则需要加引号）'
+      }
+
+      const key = await resolveCourse(ctx, userId, course)
+      if (!key) {
+        return invalidIndexMessage
+      }
+      if (types.trim().toLowerCase() === 'default') {
+        let removed = ''
+        await updateCourseMap(ctx, userId, 'specificCourseEvents', (events) => {
+          removed = matchCourseKey(Object.keys(events), key) || ''
+          if (removed) delete events[removed]
+        })
+        return `课程 ${removed || key} 已恢复使用全局通知类型设置`
+      }
+
+      const rules = parseEventRules(types, true)
+      if (!rules || rules.length === 0) {
+        return '通知事件类型规则格式无效，请使用 blackboard.config.types 查看可以设置的事件类型'
+      }
+
+      const events = formatEventRules(rules)
+      await updateCourseMap(ctx, userId, 'specificCourseEvents', (specificEvents) => {
+        specificEvents[key] = events
+      })
+      return `已设置课程 ${key} 的通知类型：${describeEventRules(events, true)}`
+    })
+
+  // 屏蔽或恢复某门课程的所有通知
+  ctx.command('blackboard.mute <course:text>', '屏蔽某门课程的所有通知')
+    .userFields(['id'])
+    .action(async ({ session }, course) => {
+      const userId = getUnifiedUserId(session)
+      if (!course?.trim()) {
+        return '请提供要屏蔽的课程名，格式如 blackboard.mute 高等数学'
+      }
+
+      const key = await resolveCourse(ctx, userId, course)
+      if (!key) {
+        return invalidIndexMessage
+      }
+      await updateCourseMap(ctx, userId, 'specificCourseEvents', (events) => {
+        events[key] = '-*'
+      })
+      return `已屏蔽课程 ${key} 的所有通知，使用 blackboard.unmute 可以恢复`
+    })
+
+  ctx.command('blackboard.unmute <course:text>', '取消对某门课程的屏蔽，恢复使用全局通知类型设置')
+    .userFields(['id'])
+    .action(async ({ session }, course) => {
+      const userId = getUnifiedUserId(session)
+      if (!course?.trim()) {
+        return '请提供要取消屏蔽的课程名'
+      }
+
+      const key = await resolveCourse(ctx, userId, course)
+      if (!key) {
+        return invalidIndexMessage
+      }
+      let removed = ''
+      await updateCourseMap(ctx, userId, 'specificCourseEvents', (events) => {
+        // 按课程名匹配已有的设置，如 blackboard.unmute 高等数学 可以取消对「高等数学(B)」的屏蔽
+        removed = matchCourseKey(Object.keys(events), key) || ''
+        if (removed) delete events[removed]
+      })
+      return removed ? `课程 ${removed} 已恢复使用全局通知类型设置` : `课程 ${key} 没有单独的通知类型设置`
+    })
+
+  // 为课程开启或关闭附件转发
+  ctx.command('blackboard.attachments', '查看转发附件的课程与大小上限')
+    .userFields(['id'])
+    .action(async ({ session }) => {
+      const userId = getUnifiedUserId(session)
+      if (config.maxAttachmentSize <= 0) {
+        return '管理员没有开启附件转发'
+      }
+
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+      const courses = Object.keys(parseJSON(bbConfig.attachmentCourses, {}))
+      if (courses.length === 0) {
+        return '您还没有为任何课程开启附件转发，使用 blackboard.attachments.on <课程> 可以开启'
+      }
+      let text = `以下课程的新作业与课程内容的附件会以文件形式发送给您：\n${courses.join('\n')}`
+      text += `\n大小上限：${Math.min(bbConfig.attachmentMaxSize, config.maxAttachmentSize)} MB（超过的附件需要到教学网下载）`
+      return text
+    })
+
+  ctx.command('blackboard.attachments.on <course:text>', '为某门课程开启附件转发（课程可以是 blackboard.courses 列出的序号）')
+    .userFields(['id'])
+    .action(async ({ session }, course) => {
+      const userId = getUnifiedUserId(session)
+      if (config.maxAttachmentSize <= 0) {
+        return '管理员没有开启附件转发'
+      }
+      if (!course?.trim()) {
+        return '请提供要转发附件的课程名，格式如 blackboard.attachments.on 计算机系统导论'
+      }
+
+      const key = await resolveCourse(ctx, userId, course)
+      if (!key) {
+        return invalidIndexMessage
+      }
+      await updateCourseMap(ctx, userId, 'attachmentCourses', (courses) => {
+        courses[key] = true
+      })
+      return `已为课程 ${key} 开启附件转发，新作业与课程内容的附件会以文件形式发送给您`
+    })
+
+  ctx.command('blackboard.attachments.off <course:text>', '为某门课程关闭附件转发')
+    .userFields(['id'])
+    .action(async ({ session }, course) => {
+      const userId = getUnifiedUserId(session)
+      if (!course?.trim()) {
+        return '请提供要关闭附件转发的课程名'
+      }
+
+      const key = await resolveCourse(ctx, userId, course)
+      if (!key) {
+        return invalidIndexMessage
+      }
+      let removed = ''
+      await updateCourseMap(ctx, userId, 'attachmentCourses', (courses) => {
+        removed = matchCourseKey(Object.keys(courses), key) || ''
+        if (removed) delete courses[removed]
+      })
+      return removed ? `已为课程 ${removed} 关闭附件转发` : `课程 ${key} 没有开启附件转发`
+    })
+
+  ctx.command('blackboard.attachments.size <size:number>', '设置转发附件的大小上限（MB）')
+    .userFields(['id'])
+    .action(async ({ session }, size) => {
+      const userId = getUnifiedUserId(session)
+      if (config.maxAttachmentSize <= 0) {
+        return '管理员没有开启附件转发'
+      }
+      if (size === undefined || !Number.isInteger(size) || size < 1 || size > config.maxAttachmentSize) {
+        return `附件大小上限必须是 1 到 ${config.maxAttachmentSize} 之间的整数（MB），格式如 blackboard.attachments.size 10`
+      }
+
+      await upsertBBConfig(ctx, userId, { attachmentMaxSize: size })
+      return `已设置转发附件的大小上限为：${size} MB`
+    })
+
+  // 设置日程的提前提醒时间
+  ctx.command('blackboard.advance <hours:number>', '设置日程 DDL 的提前提醒时间（小时）')
+    .userFields(['id'])
+    .action(async ({ session }, hours) => {
+      const userId = getUnifiedUserId(session)
+      if (hours === undefined || !Number.isInteger(hours) || hours < 3 || hours > 48) {
+        return '提前提醒时间必须是 3 到 48 之间的整数（小时），格式如 blackboard.advance 24'
+      }
+
+      await upsertBBConfig(ctx, userId, { calendarAdvanceHours: hours })
+      return `已设置提前提醒时间为：${hours} 小时`
+    })
+
+  // 设置提醒消息前缀
+  ctx.command('blackboard.prefix <type:string> <prefix:text>', '设置提醒消息的前缀（type 为 notice 或 assignment）')
+    .userFields(['id'])
+    .action(async ({ session }, type, prefix) => {
+      const userId = getUnifiedUserId(session)
+      const keys: Record<string, keyof BlackboardWatcherConfig> = {
+        'notice': 'noticeTitlePrefix',
+        'assignment': 'assignmentTitlePrefix'
+      }
+      const key = keys[type?.toLowerCase()]
+      if (!key) {
+        return '请指定要设置的前缀类型：notice（通知提醒）或 assignment（日程提醒），格式如 blackboard.prefix notice [教学网]'
+      }
+      if (!prefix?.trim() || prefix.trim().length > 20) {
+        return '前缀不能为空，且不能超过 20 个字符'
+      }
+
+      await upsertBBConfig(ctx, userId, { [key]: prefix.trim() })
+      return `已设置${type.toLowerCase() === 'notice' ? '通知' : '日程'}提醒消息前缀为：${prefix.trim()}`
+    })
+}
@@ -0,0 +1,143 @@
+import { Context } from 'koishi'
+import { Config, Subscription } from '../types'
+import { getDeliveryRoute, describeDeliveryRoute, getUnifiedUserId } from '../utils'
+import { parseEventRules, formatEventRules, describeEventRules } from '../core/event_types'
+import { getIAAAUser, getOrCreateBBConfig, upsertBBConfig, getSubscriptions, upsertSubscription, removeSubscription } from '../database'
+
+/**
+ * 描述群聊订阅的过滤条件
+ */
+function describeSubscription(subscription: Pick<Subscription, 'noticeEvents' | 'courses' | 'notifyAssignment'>): string {
+  const parts: string[] = []
+  if (subscription.noticeEvents) {
+    parts.push(describeEventRules(subscription.noticeEvents))
+  }
+  if (subscription.notifyAssignment) {
+    parts.push('日程 DDL 提醒')
+  }
+  let text = parts.length > 0 ? parts.join('，') : '不转发任何提醒'
+  if (subscription.courses) {
+    text += `（仅限课程：${subscription.courses}）`
+  }
+  return text
+}
+
+/**
+ * 注册提醒投递目标（私聊与群聊订阅）相关指令
+ */
+export function registerSubscriptionCommands(ctx: Context, config: Config) {
+  // 在群聊中注册订阅，或在私聊中重新开启私聊提醒
+  ctx.command('blackboard.subscribe', '把教学网提醒转发到当前群聊（在私聊中使用则开启私聊提醒）')
+    .option('courses', '-c <courses:string> 只转发这些课程的提醒（课程名或别名中的关键词，用逗号分隔）')
+    .option('types', '-t <types:string> 转发的通知事件类型规则（如 AS:*,AN:AN_AVAIL，前缀 - 表示屏蔽，0 表示不转发通知）', { fallback: 'AS:*' })
+    .option('ddl', '-d 同时转发日程 DDL 提醒')
+    .userFields(['id'])
+    .action(async ({ session, options }) => {
+      const userId = getUnifiedUserId(session)
+      if (session.isDirect) {
+        await upsertBBConfig(ctx, userId, { notifyPrivate: true })
+        return '已开启私聊提醒'
+      }
+
+      const iaaaUser = await getIAAAUser(ctx, userId)
+      if (!iaaaUser) {
+        return '您尚未绑定北大 IAAA 账号，请先私聊机器人使用 iaaa.bind 命令进行绑定'
+      }
+
+      const types = options.types.trim()
+      const rules = types === '0' ? [] : parseEventRules(types)
+      if (!rules) {
+        return '通知事件类型规则格式无效，请使用 blackboard.config.types 查看可以设置的事件类型'
+      }
+
+      const filters = {
+        noticeEvents: formatEventRules(rules),
+        courses: (options.courses || '').replace(/，/g, ','),
+        notifyAssignment: !!options.ddl
+      }
+      await upsertSubscription(ctx, userId, session.platform, session.channelId, {
+        selfId: session.selfId,
+        guildId: session.guildId || '',
+        ...filters
+      })
+
+      return `已将您的教学网提醒转发到本群：${describeSubscription(filters)}\n群成员都能看到这些提醒，使用 blackboard.unsubscribe 可以取消`
+    })
+
+  // 取消群聊订阅，或关闭私聊提醒
+  ctx.command('blackboard.unsubscribe [index:posint]', '取消当前群聊的订阅（在私聊中使用则关闭私聊提醒，或按序号取消群聊订阅）')
+    .userFields(['id'])
+    .action(async ({ session }, index) => {
+      const userId = getUnifiedUserId(session)
+      const subscriptions = await getSubscriptions(ctx, userId)
+
+      if (!session.isDirect) {
+        const subscription = subscriptions.find(subscription => subscription.platform === session.platform && subscription.channelId === session.channelId)
+        if (!subscription) {
+          return '您没有在本群订阅教学网提醒'
+        }
+        await removeSubscription(ctx, subscription.id)
+        return '已取消在本群的教学网提醒订阅'
+      }
+
+      if (index !== undefined) {
+        const subscription = subscriptions[index - 1]
+        if (!subscription) {
+          return `没有序号为 ${index} 的群聊订阅，请使用 blackboard.subscriptions 查看`
+        }
+        await removeSubscription(ctx, subscription.id)
+        return `已取消群聊 ${subscription.channelId} 的订阅`
+      }
+
+      await upsertBBConfig(ctx, userId, { notifyPrivate: false })
+      if (subscriptions.length === 0) {
+        return '已关闭私聊提醒。您还没有订阅任何群聊，之后将不会收到任何提醒，使用 blackboard.subscribe 可以重新开启'
+      }
+      return '已关闭私聊提醒，之后只会把提醒转发到您订阅的群聊'
+    })
+
+  // 把私聊提醒改为发送到当前平台
+  ctx.command('blackboard.deliver', '把私聊提醒改为通过当前平台与机器人发送')
+    .userFields(['id'])
+    .action(async ({ session }) => {
+      const userId = getUnifiedUserId(session)
+      const iaaaUser = await getIAAAUser(ctx, userId)
+      if (!iaaaUser) {
+        return '您尚未绑定北大 IAAA 账号，请先使用 iaaa.bind 命令进行绑定'
+      }
+
+      const route = getDeliveryRoute(session)
+      await upsertBBConfig(ctx, userId, { ...route, notifyPrivate: true })
+
+      if (!session.isDirect) {
+        return `之后的私聊提醒将由 ${route.deliveryPlatform} 平台的机器人 ${route.deliverySelfId} 私信发送给您，不会发到本群`
+      }
+      return `之后的私聊提醒将发送到这里（${route.deliveryPlatform} 平台）`
+    })
+
+  // 查看所有投递目标
+  ctx.command('blackboard.subscriptions', '查看私聊提醒状态与订阅的群聊')
+    .userFields(['id'])
+    .action(async ({ session }) => {
+      const userId = getUnifiedUserId(session)
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+      const subscriptions = await getSubscriptions(ctx, userId)
+
+      let text = `私聊提醒：${bbConfig.notifyPrivate ? '已开启' : '已关闭'}`
+      if (bbConfig.notifyPrivate) {
+        text += `，发送到 ${describeDeliveryRoute(bbConfig)}`
+      }
+
+      if (subscriptions.length === 0) {
+        text += '\n群聊订阅：无（在群聊中使用 blackboard.subscribe 即可订阅）'
+        return text
+      }
+
+      text += '\n群聊订阅：'
+      subscriptions.forEach((subscription, index) => {
+        text += `\n${index + 1}. ${subscription.platform} 群聊 ${subscription.channelId}：${describeSubscription(subscription)}`
+      })
+      text += '\n\n在私聊中使用 blackboard.unsubscribe <序号> 可以取消对应的群聊订阅'
+      return text
+    })
+}
@@ -0,0 +1,118 @@
+import { Context, h } from 'koishi'
+import { Config } from '../types'
+import { getUnifiedUserId, parseLocalTime } from '../utils'
+import { getOrCreateBBConfig, upsertBBConfig, getNoticeRecords, getAssignmentRecords } from '../database'
+import { TemplateType, templateTypes, templateSyntax, parseTemplateType, describeTemplateFields, validateTemplate, renderTemplate, getNoticeValues, getAssignmentValues, getInitValues } from '../core/templates'
+
+// 指令中模板类型的说明
+const TYPE_HINT = 'notice（通知提醒）、assignment（DDL 提醒）或 init（初始化消息）'
+
+/**
+ * 注册提醒消息模板相关指令
+ */
+export function registerTemplateCommands(ctx: Context, config: Config) {
+  // 查看模板
+  ctx.command('blackboard.template [type:string]', '查看提醒消息模板（type 为 notice、assignment 或 init）')
+    .userFields(['id'])
+    .action(async ({ session }, name) => {
+      const userId = getUnifiedUserId(session)
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+
+      // 不指定类型时列出所有模板
+      if (!name) {
+        let text = '您的提醒消息模板：'
+        for (const type of Object.keys(templateTypes) as TemplateType[]) {
+          const { name: typeName, key } = templateTypes[type]
+          text += `\n\n${typeName}（${type}）：${bbConfig[key] ? '自定义' : '默认'}\n${h.escape(bbConfig[key] || templateTypes[type].default)}`
+        }
+        text += '\n\n使用 blackboard.template <类型> 查看可用的占位符，blackboard.template.set <类型> <模板> 修改模板'
+        return text
+      }
+
+      const type = parseTemplateType(name)
+      if (!type) {
+        return `请指定模板类型：${TYPE_HINT}`
+      }
+      const { name: typeName, key } = templateTypes[type]
+      let text = `${typeName}模板（${bbConfig[key] ? '自定义' : '默认'}）：\n${h.escape(bbConfig[key] || templateTypes[type].default)}`
+      text += `\n\n可用的占位符：\n${describeTemplateFields(type)}`
+      text += `\n\n${templateSyntax}`
+      return text
+    })
+
+  // 设置模板
+  ctx.command('blackboard.template.set <type:string> <template:text>', '设置提醒消息模板')
+    .userFields(['id'])
+    .action(async ({ session }, name, template) => {
+      const userId = getUnifiedUserId(session)
+      const type = parseTemplateType(name)
+      if (!type) {
+        return `请指定模板类型：${TYPE_HINT}，格式如 blackboard.template.set notice {alias}：{title}\\n{content}`
+      }
+
+      const error = validateTemplate(type, template)
+      if (error) {
+        return `模板无效：${error}`
+      }
+
+      await upsertBBConfig(ctx, userId, { [templateTypes[type].key]: template })
+      return `已设置${templateTypes[type].name}模板，可以使用 blackboard.template.preview ${type} 预览`
+    })
+
+  // 恢复默认模板
+  ctx.command('blackboard.template.reset <type:string>', '恢复默认的提醒消息模板')
+    .userFields(['id'])
+    .action(async ({ session }, name) => {
+      const userId = getUnifiedUserId(session)
+      const type = parseTemplateType(name)
+      if (!type) {
+        return `请指定模板类型：${TYPE_HINT}`
+      }
+
+      await upsertBBConfig(ctx, userId, { [templateTypes[type].key]: '' })
+      return `已恢复默认的${templateTypes[type].name}模板`
+    })
+
+  // 用最近的记录预览模板，指定模板时预览该模板而不保存
+  ctx.command('blackboard.template.preview <type:string> [template:text]', '用最近的记录预览提醒消息模板')
+    .userFields(['id'])
+    .action(async ({ session }, name, template) => {
+      const userId = getUnifiedUserId(session)
+      const type = parseTemplateType(name)
+      if (!type) {
+        return `请指定模板类型：${TYPE_HINT}`
+      }
+      if (template) {
+        const error = validateTemplate(type, template)
+        if (error) {
+          return `模板无效：${error}`
+        }
+      }
+
+      const bbConfig = await getOrCreateBBConfig(ctx, userId)
+      template = template || bbConfig[templateTypes[type].key]
+
+      if (type === 'assignment') {
+        // 最近保存的日程记录
+        const records = (await getAssignmentRecords(ctx, userId))
+          .filter(record => record.assignmentId !== '%init%')
+          .sort((a, b) => b.id - a.id)
+        if (records.length === 0) {
+          return '还没有日程记录，无法预览，请在查询完成后再试'
+        }
+        return [h.text(`预览（使用日程「${records[0].title}」）：\n`), ...renderTemplate(type, template, getAssignmentValues(bbConfig, records[0]))]
+      }
+
+      // 最近发布的通知记录
+      const records = (await getNoticeRecords(ctx, userId))
+        .filter(record => record.noticeId !== '%init%')
+        .sort((a, b) => parseLocalTime(b.time) - parseLocalTime(a.time))
+      if (type === 'init') {
+        return [h.text('预览（通知提醒模块）：\n'), ...renderTemplate(type, template, getInitValues('notice', records.length))]
+      }
+      if (records.length === 0) {
+        return '还没有通知记录，无法预览，请在查询完成后再试'
+      }
+      return [h.text(`预览（使用通知「${records[0].title}」）：\n`), ...renderTemplate(type, template, getNoticeValues(bbConfig, records[0]))]
+    })
+}
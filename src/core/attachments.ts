@@ -0,0 +1,27 @@
+import { h } from 'koishi'
+import { BlackboardWatcherConfig, Attachment } from '../types'
+import { BlackboardClient } from './blackboard'
+import { FileTooLargeError, describeError } from './errors'
+
+/**
+ * 下载并发送通知的附件，超过用户设置的大小上限或下载失败时只发送提示
+ */
+export async function sendAttachments(
+  blackboard: BlackboardClient,
+  config: BlackboardWatcherConfig,
+  attachments: Attachment[],
+  send: (message: h.Fragment) => Promise<unknown>
+): Promise<void> {
+  const maxBytes = config.attachmentMaxSize * 1024 * 1024
+  for (const attachment of attachments) {
+    try {
+      const file = await blackboard.downloadAttachment(attachment)
+      if (file.data.length > maxBytes) {
+        throw new FileTooLargeError(`附件超过了您设置的 ${config.attachmentMaxSize} MB 大小上限`)
+      }
+      await send(h.file(file.data, file.mime, { title: file.name }))
+    } catch (e) {
+      await send(`附件 ${attachment.name} 没有转发：${describeError(e)}`)
+    }
+  }
+}
@@ -1,5 +1,9 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios'
-import { delay, testWithinHours } from '../utils'
+import { delay, testWithinHours, parseJSON, parseCourseList, parseGrades } from '../utils'
+import { BlackboardClientOptions, CourseInfo, Attachment, AttachmentFile, GradeInfo } from '../types'
+import { RateLimiter } from './rate_limiter'
+import { FileCache } from './file_cache'
+import { BlackboardError, AuthError, SessionExpiredError, ParseError, FileTooLargeError, classifyRequestError, isTransientError } from './errors'
 
 /**
  * 教学网登录与数据获取功能类
@@ -9,17 +13,32 @@ export class BlackboardClient {
   private username: string
   private password: string
   private logger: any
+  private iaaaBaseUrl: string
+  private courseBaseUrl: string
+  private maxRetries: number
+  private retryBaseDelay: number
+  private rateLimiter?: RateLimiter
+  private maxAttachmentSize: number
+  private fileCache?: FileCache
   private cookies: Map<string, string> = new Map() // 手动管理教学网域名下的 cookies
 
-  constructor(username: string, password: string, logger?: any) {
+  constructor(username: string, password: string, logger?: any, options: BlackboardClientOptions = {}) {
     this.username = username
     this.password = password
     this.logger = logger
+    this.iaaaBaseUrl = (options.iaaaBaseUrl || 'https://iaaa.pku.edu.cn').replace(/\/+$/, '')
+    this.courseBaseUrl = (options.courseBaseUrl || 'https://course.pku.edu.cn').replace(/\/+$/, '')
+    this.maxRetries = options.maxRetries ?? 3
+    this.retryBaseDelay = options.retryBaseDelay ?? 1000
+    this.rateLimiter = options.rateLimiter
+    this.maxAttachmentSize = options.maxAttachmentSize ?? 20
+    this.fileCache = options.fileCache
     this.session = axios.create({
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36'
       },
       withCredentials: true,
+      timeout: 30000,
       // maxRedirects: 10
     })
 
@@ -81,48 +100,132 @@ export class BlackboardClient {
     return cookieString
   }
 
+  /**
+   * 导出当前的 cookies（json 格式），用于保存会话以便下次复用
+   */
+  exportCookies(): string {
+    return JSON.stringify(Object.fromEntries(this.cookies))
+  }
+
+  /**
+   * 导入之前保存的 cookies，恢复教学网会话，之后的请求会优先复用该会话
+   */
+  importCookies(cookiesJson: string) {
+    const cookies = parseJSON(cookiesJson, {})
+    for (const [name, value] of Object.entries(cookies)) {
+      if (typeof value === 'string') {
+        this.cookies.set(name, value)
+      }
+    }
+  }
+
+  /**
+   * 当前是否持有教学网会话 cookie s_session_id（不保证会话仍然有效）
+   */
+  hasSession(): boolean {
+    return this.cookies.has('s_session_id')
+  }
+
+  /**
+   * 发送请求并将失败转换为对应类型的错误；网络异常或教学网暂时不可用时，按指数退避（加随机抖动）自动重试
+   */
+  private async request(send: () => Promise<AxiosResponse>): Promise<AxiosResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.rateLimiter?.acquire()
+        return await send()
+      } catch (e) {
+        const error = classifyRequestError(e)
+        if (!isTransientError(error) || attempt >= this.maxRetries) throw error
+
+        const wait = Math.round(this.retryBaseDelay * 2 ** attempt * (0.5 + Math.random()))
+        this.logger?.warn(`请求失败（${error.message}），${wait} 毫秒后进行第 ${attempt + 1} 次重试`)
+        await delay(wait)
+      }
+    }
+  }
+
+  /**
+   * 根据响应判断教学网会话是否已过期：被重定向到 IAAA 或教学网登录页，或在应返回 json 的地方返回了 html 页面
+   */
+  private checkSession(response: AxiosResponse, expectJSON: boolean) {
+    const finalUrl: string = response.request?.res?.responseUrl || ''
+    if (finalUrl.startsWith(`${this.iaaaBaseUrl}/iaaa/`) || finalUrl.includes('/webapps/login')) {
+      throw new SessionExpiredError()
+    }
+    if (expectJSON && typeof response.data === 'string') {
+      throw new SessionExpiredError()
+    }
+  }
+
+  /**
+   * 在教学网会话中执行请求：没有会话时先登录，复用的会话过期时重新登录一次并重试
+   */
+  private async withSession<T>(request: () => Promise<T>): Promise<T> {
+    let justLoggedIn = false
+    if (!this.hasSession()) {
+      await this.login()
+      justLoggedIn = true
+    }
+
+    try {
+      return await request()
+    } catch (e) {
+      if (!(e instanceof SessionExpiredError) || justLoggedIn) throw e
+
+      this.logger?.info('教学网会话已过期，重新通过 IAAA 登录')
+      await this.login()
+      return await request()
+    }
+  }
+
   /**
    * 登录 IAAA 和教学网系统，保存会话 course.pku.edu.cn/ 下的 cookie s_session_id
+   * 登录失败时抛出对应类型的错误（如学号或密码错误时抛出 AuthError）
    */
-  async login(): Promise<boolean> {
+  async login(): Promise<void> {
+    // 丢弃之前的会话
+    this.cookies.clear()
+
     try {
       // IAAA 登录，响应头分配一个 iaaa.pku.edu.cn/ 下的 cookie JSESSIONID（不重要），响应体包含一个 token
-      let response = await this.session.post(
-        'https://iaaa.pku.edu.cn/iaaa/oauthlogin.do',
+      let response = await this.request(() => this.session.post(
+        `${this.iaaaBaseUrl}/iaaa/oauthlogin.do`,
         new URLSearchParams({
           appid: 'blackboard',
           userName: this.username,
           password: this.password,
-          redirUrl: 'http://course.pku.edu.cn/webapps/bb-sso-BBLEARN/execute/authValidate/campusLogin'
+          // IAAA 登记的回调地址使用 http 协议
+          redirUrl: `${this.courseBaseUrl.replace(/^https:/, 'http:')}/webapps/bb-sso-BBLEARN/execute/authValidate/campusLogin`
         })
-      )
+      ))
 
       const iaaa_data = response.data
+      if (typeof iaaa_data !== 'object' || iaaa_data === null || !('success' in iaaa_data)) {
+        throw new ParseError('IAAA 返回的登录结果格式无效')
+      }
       if (!iaaa_data.success) {
-        throw new Error('IAAA 登录失败，请检查学号和密码')
+        throw new AuthError(iaaa_data.errors?.msg || undefined)
       }
 
       // IAAA 登录成功
       const token = iaaa_data.token
 
       // 教学网登录，响应头分配一个 course.pku.edu.cn/ 下的 cookie s_session_id
-      response = await this.session.get(
-        'https://course.pku.edu.cn/webapps/bb-sso-BBLEARN/execute/authValidate/campusLogin',
+      response = await this.request(() => this.session.get(
+        `${this.courseBaseUrl}/webapps/bb-sso-BBLEARN/execute/authValidate/campusLogin`,
         { params: { token } }
-      )
+      ))
 
       this.extractCookies(response)
-
-      return true
+      if (!this.hasSession()) {
+        throw new BlackboardError('教学网没有分配会话，请稍后再试')
+      }
 
     } catch (e) {
       // 教学网登录过程出错
       this.logger?.error(`IAAA 与教学网登录失败：${e.message}`)
-      if (e.response) {
-        this.logger?.error(`HTTP 状态码：${e.response.status}`)
-        this.logger?.error(`响应内容：${JSON.stringify(e.response.data)}`)
-      }
-      return false
+      throw e
     }
   }
 
@@ -131,78 +234,96 @@ export class BlackboardClient {
    */
   async getNoticeData(): Promise<any> {
     try {
-      // 首先获取 streamViewer 页面的会话，响应头分配一个 course.pku.edu.cn/webapps/streamViewer 下的 cookie JSESSIONID
-      let response = await this.session.get(
-        'https://course.pku.edu.cn/webapps/streamViewer/streamViewer',
-        {
-          params: {
-            cmd: 'view',
-            streamName: 'alerts',
-            globalNavigation: 'false'
-          },
-          headers: {
-            'Cookie': this.generateCookieString()
+      return await this.withSession(async () => {
+        // 首先获取 streamViewer 页面的会话，响应头分配一个 course.pku.edu.cn/webapps/streamViewer 下的 cookie JSESSIONID
+        let response = await this.request(() => this.session.get(
+          `${this.courseBaseUrl}/webapps/streamViewer/streamViewer`,
+          {
+            params: {
+              cmd: 'view',
+              streamName: 'alerts',
+              globalNavigation: 'false'
+            },
+            headers: {
+              'Cookie': this.generateCookieString()
+            }
           }
-        }
-      )
+        ))
 
-      this.extractCookies(response)
+        this.checkSession(response, false)
+        this.extractCookies(response)
 
-      // 模拟睡眠 3 秒，等待服务端数据加载，防止返回空数据
-      await delay(3000)
+        // 模拟睡眠 3 秒，等待服务端数据加载，防止返回空数据
+        await delay(3000)
 
-      // 请求通知数据
-      response = await this.session.post(
-        'https://course.pku.edu.cn/webapps/streamViewer/streamViewer',
-        new URLSearchParams({
-          cmd: 'loadStream',
-          streamName: 'alerts',
-          providers: '{}',
-          forOverview: 'false'
-        }),
-        {
-          headers: {
-            'Cookie': this.generateCookieString()
+        // 请求通知数据
+        response = await this.request(() => this.session.post(
+          `${this.courseBaseUrl}/webapps/streamViewer/streamViewer`,
+          new URLSearchParams({
+            cmd: 'loadStream',
+            streamName: 'alerts',
+            providers: '{}',
+            forOverview: 'false'
+          }),
+          {
+            headers: {
+              'Cookie': this.generateCookieString()
+            }
           }
-        }
-      )
+        ))
 
-      this.extractCookies(response)
+        this.checkSession(response, true)
+        this.extractCookies(response)
 
-      return response.data
+        if (typeof response.data !== 'object' || response.data === null || Array.isArray(response.data)) {
+          throw new ParseError('通知数据格式无效')
+        }
+        return response.data
+      })
 
     } catch (e) {
       this.logger?.error(`获取通知数据失败：${e.message}`)
-      if (e.response) {
-        this.logger?.error(`HTTP 状态码：${e.response.status}`)
-        this.logger?.error(`响应内容：${JSON.stringify(e.response.data)}`)
-      }
-      throw new Error(`获取通知数据失败：${e.message}`)
+      throw e
     }
   }
 
+  /**
+   * 获取当前的课程列表（来自通知数据中的 sx_courses），课程名去除学期后缀
+   */
+  async getCourseList(): Promise<CourseInfo[]> {
+    return parseCourseList(await this.getNoticeData())
+  }
+
   /**
    * 获取从现在开始的若干小时内的全部日程数据，返回数据为 json 格式
    */
   async getCalendarData(advanceHours: number): Promise<any> {
     try {
-      const currentTimestamp = Date.now()
-      const response = await this.session.get(
-        'https://course.pku.edu.cn/webapps/calendar/calendarData/selectedCalendarEvents',
-        {
-          params: {
-            start: currentTimestamp - 3 * 3600000,
-            end: currentTimestamp + advanceHours * 3600000,
-            course_id: '',
-            mode: 'personal'
-          },
-          headers: {
-            'Cookie': this.generateCookieString()
+      const response = await this.withSession(async () => {
+        const currentTimestamp = Date.now()
+        const response = await this.request(() => this.session.get(
+          `${this.courseBaseUrl}/webapps/calendar/calendarData/selectedCalendarEvents`,
+          {
+            params: {
+              start: currentTimestamp - 3 * 3600000,
+              end: currentTimestamp + advanceHours * 3600000,
+              course_id: '',
+              mode: 'personal'
+            },
+            headers: {
+              'Cookie': this.generateCookieString()
+            }
           }
-        }
-      )
+        ))
 
-      this.extractCookies(response)
+        this.checkSession(response, true)
+        this.extractCookies(response)
+        return response
+      })
+
+      if (!Array.isArray(response.data)) {
+        throw new ParseError('日程数据格式无效')
+      }
 
       // 手动再检查一下日程截止时间是否确实在范围内
       const filteredData = response.data.filter((entry: any) => {
@@ -213,11 +334,7 @@ export class BlackboardClient {
 
     } catch (e) {
       this.logger?.error(`获取日程数据失败：${e.message}`)
-      if (e.response) {
-        this.logger?.error(`HTTP 状态码：${e.response.status}`)
-        this.logger?.error(`响应内容：${JSON.stringify(e.response.data)}`)
-      }
-      throw new Error(`获取日程数据失败：${e.message}`)
+      throw e
     }
   }
 
@@ -225,39 +342,91 @@ export class BlackboardClient {
    * 由 notice entry（通知条目）中的 uri 获取对应作业的上传页面 html
    */
   async getAssignmentFromNotice(uri: string): Promise<string> {
-    try {
-      const response = await this.session.get(`https://course.pku.edu.cn${uri}`,
+    return await this.withSession(async () => {
+      const response = await this.request(() => this.session.get(`${this.courseBaseUrl}${uri}`,
         {
           headers: {
             'Cookie': this.generateCookieString()
           }
         }
-      )
+      ))
+      this.checkSession(response, false)
       this.extractCookies(response)
       return response.data
-    } catch (e) {
-      throw new Error(`获取作业上传页面失败：${e.message}`)
-    }
+    })
   }
 
   /**
    * 由 calendar_id 获取对应作业的上传页面 html
    */
   async getAssignmentFromCalendar(calendarId: string): Promise<string> {
-    try {
-      const response = await this.session.get(
-        `https://course.pku.edu.cn/webapps/calendar/launch/attempt/${calendarId}`,
+    return await this.withSession(async () => {
+      const response = await this.request(() => this.session.get(
+        `${this.courseBaseUrl}/webapps/calendar/launch/attempt/${calendarId}`,
         {
           headers: {
             'Cookie': this.generateCookieString()
           }
         }
-      )
+      ))
+      this.checkSession(response, false)
       this.extractCookies(response)
       // 这个请求会重定向到对应作业的 /webapps/assignment/uploadAssignment 页面
       return response.data
-    } catch (e) {
-      throw new Error(`获取作业上传页面失败：${e.message}`)
+    })
+  }
+
+  /**
+   * 获取某门课程「我的成绩」页面中已经公布的成绩
+   */
+  async getGrades(courseId: string): Promise<GradeInfo[]> {
+    return await this.withSession(async () => {
+      const response = await this.request(() => this.session.get(`${this.courseBaseUrl}/webapps/bb-mygrades-BBLEARN/myGrades`,
+        {
+          params: {
+            course_id: courseId,
+            stream_name: 'mygrades',
+            is_stream: 'false'
+          },
+          headers: {
+            'Cookie': this.generateCookieString()
+          }
+        }
+      ))
+      this.checkSession(response, false)
+      this.extractCookies(response)
+      return parseGrades(response.data)
+    })
+  }
+
+  /**
+   * 使用当前会话下载附件，超过管理员设置的大小上限时抛出 FileTooLargeError
+   * 设置了共享的附件缓存时，同一文件只下载一次
+   */
+  async downloadAttachment(attachment: Attachment): Promise<AttachmentFile> {
+    if (this.maxAttachmentSize <= 0) {
+      throw new FileTooLargeError('管理员没有开启附件转发')
     }
+
+    const download = () => this.withSession(async () => {
+      const response = await this.request(() => this.session.get(`${this.courseBaseUrl}${attachment.url}`,
+        {
+          responseType: 'arraybuffer',
+          maxContentLength: this.maxAttachmentSize * 1024 * 1024,
+          headers: {
+            'Cookie': this.generateCookieString()
+          }
+        }
+      ))
+      this.checkSession(response, false)
+      this.extractCookies(response)
+      return {
+        name: attachment.name,
+        mime: String(response.headers['content-type'] || 'application/octet-stream').split(';')[0],
+        data: Buffer.from(response.data)
+      }
+    })
+
+    return this.fileCache ? await this.fileCache.get(attachment.fileId, download) : await download()
   }
 }
@@ -1,8 +1,15 @@
-import { Context, Session } from 'koishi'
+import { Context, Session, h } from 'koishi'
 import { BlackboardWatcherConfig, AssignmentRecord } from '../types'
 import { BlackboardClient } from './blackboard'
-import { getAssignmentRecords, createAssignmentRecords } from '../database'
-import { convertToTime, convertTimezone, parseJSON, testWithinHours, hasAttempted, parseInstruction } from '../utils'
+import { AuthError, describeError } from './errors'
+import { sendToSubscriptions } from './subscription'
+import { getCourseAlias } from './course_identity'
+import { renderTemplate, getAssignmentValues, getInitValues } from './templates'
+import { getAssignmentRecords, createAssignmentRecords, updateAssignmentRecord, createDigestItems, getSubscriptions } from '../database'
+import { convertToTime, convertTimezone, convertToTimestamp, parseJSON, removeSuffix, testWithinHours, hasAttempted, parseInstruction, formatRemaining, getReminderStages, getDailyWindow } from '../utils'
+
+// 日程表的最大查询范围（小时），比提醒阶段更宽，以便发现截止时间被推迟的已知日程
+const CALENDAR_LOOKAHEAD_HOURS = 14 * 24
 
 /**
  * 日程处理器类
@@ -15,20 +22,40 @@ export class CalendarHandler {
     private userId: string,
     private config: BlackboardWatcherConfig,
     private blackboard: BlackboardClient,
-    private session: Session
+    private session: Session,
+    private checkInterval: number = 0  // 定时查询的间隔（分钟），用于判断本次是否为免打扰时段开始前的最后一次查询
   ) {
     this.logger = ctx.logger('pku-blackboard-watcher')
   }
 
+  /**
+   * 判断日程的某个提醒阶段是否已经到达
+   * 若该阶段会落在下一个免打扰时段内，且本次是时段开始前的最后一次查询，则提前到现在提醒
+   */
+  private isStageReached(endDate: string, hours: number): boolean {
+    if (testWithinHours(endDate, hours)) return true
+
+    const { quietHoursStart, quietHoursEnd } = this.config
+    if (!quietHoursStart || !quietHoursEnd) return false
+
+    const now = Date.now()
+    const [windowStart, windowEnd] = getDailyWindow(quietHoursStart, quietHoursEnd, now)
+    const stageTime = convertToTimestamp(endDate) - hours * 3600000
+    return windowStart > now
+      && now + this.checkInterval * 60000 >= windowStart
+      && stageTime >= windowStart && stageTime < windowEnd
+  }
+
   /**
    * 从原始日程条目 assignment entry 中提取有效信息，并整合为一条 record
    */
   private async filterAssignmentInfo(entry: any): Promise<Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>> {
     const id = entry.id
     const time = convertTimezone(entry.endDate)
-    const course = entry.calendarName.replace(/\([^()]*\)$/, '') // 去除学期后缀
+    const course = removeSuffix(entry.calendarName)
     const title = entry.title
-    let description = entry.description || ''
+    const rawDescription = (entry.description || '').trim()
+    let description = rawDescription
     let shouldNotify = true // 用户自定义的事件默认需要提醒
 
     // 如果是该日程是一个作业 DDL，检查是否已提交
@@ -51,105 +78,224 @@ export class CalendarHandler {
     return {
       assignmentId: id,
       time,
+      endDate: entry.endDate,
       course,
       title,
       description: description.trim(),
-      shouldNotify
+      rawDescription,
+      shouldNotify,
+      notifiedStages: ''
     }
   }
 
   /**
-   * 由 assignment record 生成对应的消息标题与内容，并发送给用户
+   * 判断已记录的日程在教学网上是否被修改过（截止时间、标题或描述）
    */
-  private async notifyAssignment(record: Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<void> {
-    // 生成消息标题
-    let subject: string
-    let course: string
+  private isAssignmentChanged(record: AssignmentRecord, entry: any): boolean {
+    if (record.time !== convertTimezone(entry.endDate)) return true
+    // 旧版本写入的记录没有保存原始截止时间和描述，只比较截止时间
+    if (!record.endDate) return false
+    return record.title !== entry.title || record.rawDescription !== (entry.description || '').trim()
+  }
 
+  /**
+   * 生成日程提醒消息的标题，如果用户提供了该课程的别名，则使用别名
+   */
+  private generateSubject(record: Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): string {
     if (record.course === '个人') {
-      if (record.title.includes('：')) {
-        course = record.title.split('：')[0]
-      } else {
-        course = '个人事件'
-      }
-      subject = this.config.assignmentTitlePrefix + ' ' + record.title
+      return this.config.assignmentTitlePrefix + ' ' + record.title
+    }
+    const aliases = parseJSON(this.config.courseAliases, {})
+    const course = getCourseAlias(aliases, record.course)
+    const sep = course.length > 0 ? '：' : ''
+    return this.config.assignmentTitlePrefix + ' ' + course + sep + record.title
+  }
+
+  /**
+   * 由 assignment record 按用户的模板生成对应的提醒消息
+   */
+  private generateAssignmentMessage(record: Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): h[] {
+    return renderTemplate('assignment', this.config.assignmentTemplate, getAssignmentValues(this.config, record))
+  }
+
+  /**
+   * 生成日程变更的说明文字（新旧截止时间或更新后的内容）
+   */
+  private describeAssignmentChange(oldRecord: AssignmentRecord, record: Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): string {
+    if (oldRecord.time === record.time) {
+      return '日程内容已更新'
+    }
+
+    let text: string
+    if (!oldRecord.endDate) {
+      text = 'DDL 截止时间已变更'
+    } else if (convertToTimestamp(record.endDate) > convertToTimestamp(oldRecord.endDate)) {
+      text = 'DDL 已延期'
     } else {
-      // 如果用户提供了该课程的别名，则使用别名
-      const aliases = parseJSON(this.config.courseAliases, {})
-      course = aliases[record.course.toLowerCase()] || record.course
-      const sep = course.length > 0 ? '：' : ''
-      subject = this.config.assignmentTitlePrefix + ' ' + course + sep + record.title
+      text = 'DDL 已提前'
     }
+    text += `\n原截止时间：${oldRecord.time}`
+    text += `\n新截止时间：${record.time}`
+    return text
+  }
 
-    // 生成消息内容，显示日程截止时间
-    let body = record.description
-    body += `\n截止时间：${record.time}`
+  /**
+   * 日程在教学网上被修改后，生成说明新旧截止时间或更新后内容的消息
+   */
+  private generateAssignmentChangeMessage(oldRecord: AssignmentRecord, record: Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): string {
+    const subject = this.generateSubject(record)
+
+    let body = this.describeAssignmentChange(oldRecord, record)
+    if (oldRecord.time === record.time) {
+      if (record.description) {
+        body += `\n${h.escape(record.description)}`
+      }
+      body += `\n截止时间：${record.time}`
+    }
+    body += `\n剩余时间：${formatRemaining(record.endDate)}`
 
-    await this.session.send(subject + '\n' + body.trim())
+    return subject + '\n' + body.trim()
   }
 
   /**
-   * 主处理函数，获取日程、过滤日程、发送消息、更新数据库表
+   * 主处理函数，获取日程、过滤日程、按阶段发送消息、更新数据库表，返回是否处理成功
    */
-  async process(): Promise<void> {
+  async process(): Promise<boolean> {
     try {
-      // 1. 检查配置
+      // 1. 检查配置，得到从大到小排列的各个提醒阶段
       if (this.config.calendarAdvanceHours <= 0) {
         await this.session.send('DDL 提前通知时间不是正整数，请检查配置')
-        return
+        return false
       }
+      const stages = getReminderStages(this.config.calendarAdvanceHours, this.config.calendarReminderStages)
 
-      // 2. 从教学网获取通知日程信息
-      const calendarData = await this.blackboard.getCalendarData(this.config.calendarAdvanceHours)
+      // 2. 从教学网获取日程信息，查询范围比最早的提醒阶段更宽，以便发现被推迟的日程
+      const calendarData = await this.blackboard.getCalendarData(Math.max(stages[0], CALENDAR_LOOKAHEAD_HOURS))
 
       // 3. 获取已处理的日程记录，并通过数据库表中的特殊记录判断是否需要初始化
       const oldAssignmentRecords = await getAssignmentRecords(this.ctx, this.userId)
-      const oldAssignmentIds = new Set(oldAssignmentRecords.map(record => record.assignmentId))
-      const isInit = !oldAssignmentIds.has('%init%')
+      const oldAssignmentMap = new Map(oldAssignmentRecords.map(record => [record.assignmentId, record]))
+      const isInit = !oldAssignmentMap.has('%init%')
 
-      // 4. 从所有通知中过滤出新的（数据库中没有记录的）日程，并提取日程信息
-      const updatedAssignmentRecords: Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[] = []
+      // 4. 对每个日程检查是否被修改过，以及是否有已经到达、但还没有提醒过的阶段，新日程记为新记录，已有日程记为待更新记录
+      const newAssignmentRecords: Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[] = []
+      const updatedAssignmentRecords: { id: number, record: Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'> }[] = []
+      const pendingNotifications: { record: Omit<AssignmentRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>, oldRecord?: AssignmentRecord }[] = []
 
       for (const entry of calendarData) {
-        if (!oldAssignmentIds.has(entry.id)) {
+        const reachedStages = stages.filter(hours => this.isStageReached(entry.endDate, hours))
+        const oldRecord = oldAssignmentMap.get(entry.id)
+
+        // 已记录的日程在教学网上被修改过，则按新的截止时间重新安排提醒：只把新时间下已到达的阶段标记为已提醒
+        if (oldRecord && this.isAssignmentChanged(oldRecord, entry)) {
           const record = await this.filterAssignmentInfo(entry)
-          updatedAssignmentRecords.push(record)
+          record.notifiedStages = reachedStages.join(',')
+          updatedAssignmentRecords.push({ id: oldRecord.id, record })
+          if (record.shouldNotify) {
+            pendingNotifications.push({ record, oldRecord })
+          }
+          continue
+        }
+
+        // 还没有到达任何提醒阶段的新日程也先记录下来，用于生成日历订阅
+        if (reachedStages.length === 0) {
+          if (!oldRecord) {
+            newAssignmentRecords.push(await this.filterAssignmentInfo(entry))
+          }
+          continue
+        }
+
+        // 已提交过的作业不再提醒
+        if (oldRecord && !oldRecord.shouldNotify) continue
+
+        // 所有已到达的阶段都提醒过了，无需处理
+        const firedStages = oldRecord ? oldRecord.notifiedStages.split(',').filter(Boolean).map(Number) : []
+        if (reachedStages.every(hours => firedStages.includes(hours))) continue
+
+        // 重新提取日程信息（会再次检查作业是否已提交），并把已到达的阶段全部标记为已提醒
+        const record = await this.filterAssignmentInfo(entry)
+        record.notifiedStages = [...new Set([...firedStages, ...reachedStages])].join(',')
+
+        if (oldRecord) {
+          updatedAssignmentRecords.push({ id: oldRecord.id, record })
+        } else {
+          newAssignmentRecords.push(record)
+        }
+        if (record.shouldNotify) {
+          pendingNotifications.push({ record })
         }
       }
 
       // 5. 如果是初始化，发送初始化成功消息并添加初始化标记记录
       if (isInit) {
-        await this.session.send(`日程提醒模块首次运行成功！\n之后就可以自动在作业、事件截止前提醒您了~`)
+        await this.session.send(renderTemplate('init', this.config.initTemplate, getInitValues('assignment', newAssignmentRecords.length)))
 
         // 添加初始化标记记录
         const initRecord = {
           assignmentId: '%init%',
           time: convertToTime(Date.now()),
+          endDate: '',
           course: '',
           title: '初始化标记',
           description: '日程模块初始化完成',
-          shouldNotify: false
+          rawDescription: '',
+          shouldNotify: false,
+          notifiedStages: ''
         }
-        updatedAssignmentRecords.push(initRecord)
+        newAssignmentRecords.push(initRecord)
       } else {
-        // 否则对用户自定义的事件和未提交过的作业进行提醒
-        for (const record of updatedAssignmentRecords) {
-          if (record.shouldNotify) {
-            await this.notifyAssignment(record)
-          } else {
-            // this.logger.info(`作业已提交过：${record.title}（${record.course}）`)
+        // 否则对被修改过的日程发送变更消息，对用户自定义的事件和未提交过的作业按到达的阶段进行提醒
+        const generateMessage = ({ record, oldRecord }: typeof pendingNotifications[number]) => oldRecord
+          ? this.generateAssignmentChangeMessage(oldRecord, record)
+          : this.generateAssignmentMessage(record)
+
+        // 用户关闭了私聊提醒时只转发到群聊
+        const privateNotifications = this.config.notifyPrivate ? pendingNotifications : []
+
+        if (this.config.deliveryMode === 'immediate') {
+          for (const notification of privateNotifications) {
+            await this.session.send(generateMessage(notification))
+          }
+        } else {
+          // 汇总发送模式下先暂存，由定时服务按时合并发送
+          await createDigestItems(this.ctx, this.userId, privateNotifications.map(({ record, oldRecord }) => ({
+            type: 'assignment',
+            itemId: record.assignmentId,
+            course: record.course,
+            title: record.title,
+            content: oldRecord ? this.describeAssignmentChange(oldRecord, record) : '',
+            time: record.time,
+            endDate: record.endDate
+          })))
+        }
+
+        // 转发到订阅了日程提醒的群聊
+        const subscriptions = await getSubscriptions(this.ctx, this.userId)
+        if (subscriptions.length > 0) {
+          const aliases = parseJSON(this.config.courseAliases, {})
+          for (const notification of pendingNotifications) {
+            const item = { type: 'assignment' as const, course: notification.record.course, event: '' }
+            await sendToSubscriptions(this.ctx, subscriptions, item, aliases, generateMessage(notification))
           }
         }
       }
 
-      // 6. 保存新的日程记录
-      if (updatedAssignmentRecords.length > 0) {
-        await createAssignmentRecords(this.ctx, this.userId, updatedAssignmentRecords)
+      // 6. 保存新的日程记录，并更新已有日程记录
+      if (newAssignmentRecords.length > 0) {
+        await createAssignmentRecords(this.ctx, this.userId, newAssignmentRecords)
+      }
+      for (const { id, record } of updatedAssignmentRecords) {
+        await updateAssignmentRecord(this.ctx, id, record)
       }
 
+      return true
+
     } catch (error) {
+      // 登录失败时其余查询也无法进行，交给调用者统一处理
+      if (error instanceof AuthError) throw error
       // this.logger.error('处理日程时发生错误：', error)
-      await this.session.send(`处理日程时发生错误：${error.message}`)
+      await this.session.send(`处理日程时发生错误：${describeError(error)}`)
+      return false
     }
   }
 }
@@ -0,0 +1,69 @@
+import { CourseInfo } from '../types'
+
+/**
+ * 把全角字符（如全角括号、全角字母数字和全角空格）转换为半角
+ */
+function toHalfWidth(text: string): string {
+  return text
+    .replace(/[！-～]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0))
+    .replace(/　/g, ' ')
+}
+
+/**
+ * 规范化课程名，用于比较：统一全角与半角、去除空白、学期后缀和课程代码前缀，并转为小写
+ */
+export function normalizeCourseName(name: string): string {
+  return toHalfWidth(name)
+    .replace(/\s+/g, '')
+    .replace(/\([^()]*(学期|学年)[^()]*\)$/, '')
+    .replace(/^\[[^\]]*\]/, '')
+    .replace(/^\d{5,}[-_:]?/, '')
+    .toLowerCase()
+}
+
+/**
+ * 在用户配置的课程键（课程名、别名配置的键等）中找到与课程对应的一个
+ * 依次尝试：与教学网课程 ID 相同、规范化后的课程名相同、规范化后互相包含（取最长的键）
+ */
+export function matchCourseKey(keys: string[], course: string, courseId: string = ''): string | undefined {
+  if (courseId) {
+    const byId = keys.find(key => key.trim().toLowerCase() === courseId.toLowerCase())
+    if (byId !== undefined) return byId
+  }
+
+  const name = normalizeCourseName(course)
+  if (!name) return undefined
+
+  const exact = keys.find(key => normalizeCourseName(key) === name)
+  if (exact !== undefined) return exact
+
+  // 包含匹配时忽略过短的键，避免单个字误匹配到其他课程
+  const candidates = keys
+    .map(key => ({ key, normalized: normalizeCourseName(key) }))
+    .filter(({ normalized }) => normalized.length >= 2 && (name.includes(normalized) || normalized.includes(name)))
+    .sort((a, b) => b.normalized.length - a.normalized.length)
+  return candidates[0]?.key
+}
+
+/**
+ * 从以课程为键的配置（如课程别名、特定课程的通知类型）中取出某门课程的值
+ */
+export function findCourseValue<T>(map: Record<string, T>, course: string, courseId: string = ''): T | undefined {
+  const key = matchCourseKey(Object.keys(map), course, courseId)
+  return key === undefined ? undefined : map[key]
+}
+
+/**
+ * 得到课程的显示名称，设置了别名时使用别名
+ */
+export function getCourseAlias(aliases: Record<string, string>, course: string, courseId: string = ''): string {
+  return findCourseValue(aliases, course, courseId) || course
+}
+
+/**
+ * 找出配置中不对应任何当前课程的键
+ */
+export function findUnmatchedKeys(keys: string[], courses: CourseInfo[]): string[] {
+  const matched = new Set(courses.map(course => matchCourseKey(keys, course.name, course.id)))
+  return keys.filter(key => !matched.has(key))
+}
@@ -0,0 +1,133 @@
+import { Context, Session, h } from 'koishi'
+import { BlackboardWatcherConfig, DigestItem, Attachment } from '../types'
+import { removeDigestItems, createOutboxMessage } from '../database'
+import { getCourseAlias } from './course_identity'
+import { parseJSON, convertToTimestamp, formatRemaining, getLatestDailyTime } from '../utils'
+
+// 摘要中每条通知内容的最大长度
+const MAX_CONTENT_LENGTH = 200
+
+/**
+ * 摘要处理器类，在汇总发送模式下把暂存的通知与日程提醒合并为一条消息发送
+ */
+export class DigestHandler {
+  private logger: any
+
+  constructor(
+    private ctx: Context,
+    private userId: string,
+    private config: BlackboardWatcherConfig,
+    private items: DigestItem[],
+    private session: Session
+  ) {
+    this.logger = ctx.logger('pku-blackboard-watcher')
+  }
+
+  /**
+   * 判断是否到了发送摘要的时间：存在早于最近一次发送时刻加入的条目
+   */
+  private isDue(now: number): boolean {
+    let latestTime: number
+    if (this.config.deliveryMode === 'hourly') {
+      latestTime = Math.floor(now / 3600000) * 3600000
+    } else if (this.config.deliveryMode === 'daily') {
+      latestTime = getLatestDailyTime(this.config.digestTime, now)
+    } else {
+      // 已切换回立即发送，暂存的条目直接发出
+      return true
+    }
+    return this.items.some(item => item.createdAt.getTime() <= latestTime)
+  }
+
+  /**
+   * 获取课程的显示名称，如果用户提供了该课程的别名，则使用别名
+   */
+  private getCourseName(course: string): string {
+    const aliases = parseJSON(this.config.courseAliases, {})
+    return getCourseAlias(aliases, course)
+  }
+
+  /**
+   * 生成摘要消息：新通知按课程分组，日程按截止时间先后排列，最后是新公布的成绩
+   */
+  private generateDigest(): string {
+    const notices = this.items.filter(item => item.type === 'notice')
+    const grades = this.items.filter(item => item.type === 'grade')
+
+    // 同一日程可能在多个阶段被加入，只保留最新的一条
+    const assignmentMap = new Map<string, DigestItem>()
+    for (const item of this.items.filter(item => item.type === 'assignment')) {
+      assignmentMap.set(item.itemId, item)
+    }
+    const assignments = [...assignmentMap.values()]
+      .sort((a, b) => convertToTimestamp(a.endDate) - convertToTimestamp(b.endDate))
+
+    let text = this.config.deliveryMode === 'daily' ? '[教学网每日摘要]' : '[教学网提醒汇总]'
+
+    if (notices.length > 0) {
+      text += `\n\n新通知（${notices.length} 条）：`
+
+      const courseGroups = new Map<string, DigestItem[]>()
+      for (const notice of notices) {
+        const course = this.getCourseName(notice.course) || '其他'
+        if (!courseGroups.has(course)) courseGroups.set(course, [])
+        courseGroups.get(course).push(notice)
+      }
+
+      for (const [course, group] of courseGroups) {
+        text += `\n\n【${h.escape(course)}】`
+        for (const notice of group) {
+          text += `\n- ${h.escape(notice.title)}（${notice.time}）`
+          if (notice.content) {
+            const content = notice.content.length > MAX_CONTENT_LENGTH
+              ? notice.content.slice(0, MAX_CONTENT_LENGTH) + '…'
+              : notice.content
+            text += `\n  ${h.escape(content).replace(/\n/g, '\n  ')}`
+          }
+        }
+      }
+    }
+
+    if (assignments.length > 0) {
+      text += `\n\n即将截止的日程（${assignments.length} 项）：`
+      for (const assignment of assignments) {
+        const course = assignment.course === '个人' ? '' : this.getCourseName(assignment.course)
+        const sep = course.length > 0 ? '：' : ''
+        text += `\n- ${h.escape(course)}${sep}${h.escape(assignment.title)}`
+        text += `\n  截止时间：${assignment.time}（剩余 ${formatRemaining(assignment.endDate)}）`
+        if (assignment.content) {
+          text += `\n  ${h.escape(assignment.content).replace(/\n/g, '\n  ')}`
+        }
+      }
+    }
+
+    if (grades.length > 0) {
+      text += `\n\n新成绩（${grades.length} 项）：`
+      for (const grade of grades) {
+        text += `\n- ${h.escape(this.getCourseName(grade.course))}：${h.escape(grade.title)}`
+        text += `\n  ${h.escape(grade.content).replace(/\n/g, '\n  ')}`
+      }
+    }
+
+    return text
+  }
+
+  /**
+   * 主处理函数，若已到发送时间则发送摘要，并删除已发送的条目
+   * 通知的附件转入待发送消息表，由定时服务下载后在摘要之后发送
+   */
+  async process(): Promise<void> {
+    if (this.items.length === 0 || !this.isDue(Date.now())) return
+
+    try {
+      await this.session.send(this.generateDigest())
+      const attachments: Attachment[] = this.items.flatMap(item => parseJSON(item.attachments, []))
+      if (attachments.length > 0) {
+        await createOutboxMessage(this.ctx, this.userId, '', attachments)
+      }
+      await removeDigestItems(this.ctx, this.items.map(item => item.id))
+    } catch (error) {
+      this.logger.error(`为用户 ${this.userId} 发送摘要时发生错误：`, error)
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * 教学网客户端错误的基类
+ */
+export class BlackboardError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BlackboardError'
+  }
+}
+
+/**
+ * IAAA 登录失败（学号或密码错误、账号被锁定等）
+ */
+export class AuthError extends BlackboardError {
+  constructor(message: string = '学号或密码错误') {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+/**
+ * 网络异常（连接失败、超时等），属于暂时性错误
+ */
+export class NetworkError extends BlackboardError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * IAAA 或教学网暂时不可用（HTTP 5xx 或 429），属于暂时性错误
+ */
+export class UpstreamUnavailableError extends BlackboardError {
+  status: number
+
+  constructor(status: number) {
+    super(`HTTP ${status}`)
+    this.name = 'UpstreamUnavailableError'
+    this.status = status
+  }
+}
+
+/**
+ * 教学网会话已过期（被重定向到登录页，或在应返回 json 的地方返回了 html 页面）
+ */
+export class SessionExpiredError extends BlackboardError {
+  constructor(message: string = '教学网会话已过期') {
+    super(message)
+    this.name = 'SessionExpiredError'
+  }
+}
+
+/**
+ * 无法解析 IAAA 或教学网返回的数据（接口或页面结构可能发生了变化）
+ */
+export class ParseError extends BlackboardError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ParseError'
+  }
+}
+
+/**
+ * 要下载的附件超过了管理员设置的大小上限
+ */
+export class FileTooLargeError extends BlackboardError {
+  constructor(message: string = '附件超过了大小上限') {
+    super(message)
+    this.name = 'FileTooLargeError'
+  }
+}
+
+/**
+ * 是否为可以自动重试的暂时性错误
+ */
+export function isTransientError(e: any): boolean {
+  return e instanceof NetworkError || e instanceof UpstreamUnavailableError
+}
+
+/**
+ * 将 axios 请求抛出的错误转换为对应类型的教学网客户端错误
+ */
+export function classifyRequestError(e: any): BlackboardError {
+  if (e instanceof BlackboardError) return e
+
+  if (e.response) {
+    const status: number = e.response.status
+    if (status >= 500 || status === 429) {
+      return new UpstreamUnavailableError(status)
+    }
+    return new BlackboardError(`HTTP ${status}`)
+  }
+
+  // 响应体超过了 maxContentLength（下载附件时使用）
+  if (/maxContentLength/.test(e.message || '')) {
+    return new FileTooLargeError()
+  }
+
+  // 请求已发出但没有收到响应（连接被拒绝、超时、DNS 解析失败等）
+  if (e.request || e.code) {
+    return new NetworkError(e.code || e.message)
+  }
+
+  return new ParseError(e.message)
+}
+
+/**
+ * 为不同类型的错误生成面向用户的提示消息
+ */
+export function describeError(e: any): string {
+  if (e instanceof AuthError) {
+    return `IAAA 登录失败（${e.message}），请检查学号和密码，必要时使用 iaaa.bind 重新绑定`
+  }
+  if (e instanceof NetworkError) {
+    return `无法连接到 IAAA 或教学网（${e.message}），可能是网络波动，请稍后再试`
+  }
+  if (e instanceof UpstreamUnavailableError) {
+    return `教学网暂时不可用（${e.message}），请稍后再试`
+  }
+  if (e instanceof SessionExpiredError) {
+    return '教学网会话已过期，且重新登录后仍无法访问，请稍后再试'
+  }
+  if (e instanceof FileTooLargeError) {
+    return `${e.message}，请到教学网下载`
+  }
+  if (e instanceof ParseError) {
+    return `无法解析教学网返回的数据（${e.message}），教学网页面可能发生了变化，请联系管理员`
+  }
+  return e?.message ?? String(e)
+}
@@ -0,0 +1,168 @@
+import { findCourseValue } from './course_identity'
+
+// 已知的教学网通知事件类型及其名称
+export const eventTypes: Record<string, string> = {
+  'AS:AS_AVAIL': '新作业发布',
+  'AS:DUE': '作业即将截止',
+  'AS:OVERDUE': '作业已逾期',
+  'GB:GB_GRA_UPDATED': '作业已评分',
+  'TE:TE_AVAIL': '新测验发布',
+  'TE:DUE': '测验即将截止',
+  'TE:OVERDUE': '测验已逾期',
+  'SU:SU_AVAIL': '新问卷发布',
+  'CO:CO_AVAIL': '新内容与课件',
+  'AN:AN_AVAIL': '课程公告',
+  'CR:CR_AVAIL': '课程开放'
+}
+
+// 事件类型分组（事件类型中冒号前的部分）的名称
+export const eventGroups: Record<string, string> = {
+  'AS': '作业',
+  'GB': '成绩',
+  'TE': '测验',
+  'SU': '问卷',
+  'CO': '内容与课件',
+  'AN': '公告',
+  'CR': '课程'
+}
+
+// 旧版本的数字通知类型（1：作业相关，2：内容与课件相关，3：公告等其他通知）对应的事件类型分组
+const legacyCategories = {
+  '1': 'AS:*',
+  '2': 'CO:*'
+}
+
+/**
+ * 一条通知事件类型规则，event 可以是具体的事件类型、某个分组（如 AS:*）或全部类型（*）
+ */
+export interface EventRule {
+  event: string
+  allow: boolean
+}
+
+/**
+ * 得到事件类型的名称，未知的事件类型按分组命名
+ */
+export function getEventLabel(event: string): string {
+  if (eventTypes[event]) return eventTypes[event]
+  const group = eventGroups[event.split(':')[0]]
+  return group ? `其他${group}通知（${event}）` : `其他通知（${event || '未知类型'}）`
+}
+
+/**
+ * 描述一条规则匹配的事件类型
+ */
+function describeRuleEvent(event: string): string {
+  if (event === '*') return '全部通知'
+  if (event.endsWith(':*')) return `全部${eventGroups[event.slice(0, -2)] || event.slice(0, -2)}通知`
+  return getEventLabel(event)
+}
+
+/**
+ * 把旧版本的数字通知类型（如 "13"）转换为事件类型规则
+ * override 为 true 时表示特定课程的配置，原来会完全覆盖总体配置，因此没有选择的类型要显式屏蔽
+ */
+export function convertLegacyEvents(digits: string, override: boolean): string {
+  const rules: string[] = []
+  if (digits.includes('3')) {
+    // 类型 3 表示除作业、内容与课件以外的所有通知
+    rules.push('*')
+    for (const digit of ['1', '2']) {
+      rules.push(digits.includes(digit) ? legacyCategories[digit] : `-${legacyCategories[digit]}`)
+    }
+  } else {
+    for (const digit of ['1', '2']) {
+      if (digits.includes(digit)) rules.push(legacyCategories[digit])
+    }
+    if (override) rules.push('-*')
+  }
+  return rules.join(',')
+}
+
+/**
+ * 是否为旧版本的数字通知类型
+ */
+export function isLegacyEvents(text: string): boolean {
+  return /^[123]+$/.test(text)
+}
+
+/**
+ * 解析逗号分隔的事件类型规则（如 "*,-AN:AN_AVAIL"），前缀 - 表示屏蔽；格式无效时返回 null
+ * 兼容旧版本的数字通知类型
+ */
+export function parseEventRules(text: string, override: boolean = false): EventRule[] | null {
+  text = String(text ?? '').trim().replace(/，/g, ',')
+  if (isLegacyEvents(text)) {
+    text = convertLegacyEvents(text, override)
+  }
+
+  const rules: EventRule[] = []
+  for (const item of text.split(',').map(item => item.trim()).filter(Boolean)) {
+    const allow = !item.startsWith('-')
+    const event = (allow ? item.replace(/^\+/, '') : item.slice(1)).toUpperCase()
+    if (!/^(\*|[A-Z]+:\*|[A-Z]+:[A-Z0-9_]+)$/.test(event)) return null
+    rules.push({ event, allow })
+  }
+  return rules
+}
+
+/**
+ * 把事件类型规则格式化为保存在数据库中的字符串
+ */
+export function formatEventRules(rules: EventRule[]): string {
+  return rules.map(rule => (rule.allow ? '' : '-') + rule.event).join(',')
+}
+
+/**
+ * 按规则判断事件类型是否需要提醒，越具体的规则优先级越高（具体类型 > 分组 > 全部）
+ * 没有规则匹配时返回 undefined
+ */
+export function matchEventRules(rules: EventRule[], event: string): boolean | undefined {
+  const group = `${event.split(':')[0]}:*`
+  for (const target of [event, group, '*']) {
+    const rule = rules.find(rule => rule.event === target)
+    if (rule) return rule.allow
+  }
+  return undefined
+}
+
+/**
+ * 根据用户的总体规则与特定课程的规则判断事件是否需要提醒，特定课程的规则优先，同时给出判断的原因
+ */
+export function checkEventAllowed(generalRules: string, specificRules: Record<string, string>, course: string, event: string, courseId: string = ''): { allowed: boolean, reason: string } {
+  const label = getEventLabel(event)
+  const courseRules = findCourseValue(specificRules, course, courseId)
+  if (courseRules !== undefined) {
+    const allowed = matchEventRules(parseEventRules(String(courseRules), true) || [], event)
+    if (allowed !== undefined) {
+      return { allowed, reason: `课程「${course}」的通知类型规则${allowed ? '提醒' : '屏蔽'}${label}` }
+    }
+  }
+  const allowed = matchEventRules(parseEventRules(generalRules) || [], event)
+  if (allowed === undefined) {
+    return { allowed: false, reason: `全局通知类型规则没有包含${label}` }
+  }
+  return { allowed, reason: `全局通知类型规则${allowed ? '提醒' : '屏蔽'}${label}` }
+}
+
+/**
+ * 描述事件类型规则，如 "提醒：全部通知；屏蔽：课程公告"
+ */
+export function describeEventRules(text: string, override: boolean = false): string {
+  const rules = parseEventRules(text, override)
+  if (!rules) return `无效的规则（${text}）`
+
+  const allowed = rules.filter(rule => rule.allow).map(rule => describeRuleEvent(rule.event))
+  const denied = rules.filter(rule => !rule.allow).map(rule => describeRuleEvent(rule.event))
+  const parts: string[] = []
+  if (allowed.length > 0) parts.push(`提醒：${allowed.join('、')}`)
+  if (denied.length > 0) parts.push(`屏蔽：${denied.join('、')}`)
+  return parts.length > 0 ? parts.join('；') : '不提醒任何通知'
+}
+
+/**
+ * 列出所有已知的事件类型，用于提示用户可以设置的类型
+ */
+export function listEventTypes(): string {
+  return Object.entries(eventTypes).map(([event, label]) => `${event}：${label}`).join('\n')
+}
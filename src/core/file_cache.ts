@@ -0,0 +1,57 @@
+import { AttachmentFile } from '../types'
+
+/**
+ * 按教学网文件 ID 缓存已下载的附件，所有共用同一个实例的客户端共享
+ * 总大小超过上限时淘汰最久没有使用的文件；同一文件正在下载时，其他请求等待同一次下载
+ */
+export class FileCache {
+  private maxBytes: number
+  private totalBytes: number = 0
+  private files: Map<string, AttachmentFile> = new Map()  // 按最近使用的先后排列
+  private pending: Map<string, Promise<AttachmentFile>> = new Map()
+
+  constructor(maxMegabytes: number) {
+    this.maxBytes = maxMegabytes * 1024 * 1024
+  }
+
+  /**
+   * 取出缓存的文件，没有缓存时调用 download 下载并加入缓存
+   */
+  async get(fileId: string, download: () => Promise<AttachmentFile>): Promise<AttachmentFile> {
+    const cached = this.files.get(fileId)
+    if (cached) {
+      // 重新插入，标记为最近使用
+      this.files.delete(fileId)
+      this.files.set(fileId, cached)
+      return cached
+    }
+
+    const pending = this.pending.get(fileId)
+    if (pending) return pending
+
+    const promise = download()
+    this.pending.set(fileId, promise)
+    try {
+      const file = await promise
+      this.add(fileId, file)
+      return file
+    } finally {
+      this.pending.delete(fileId)
+    }
+  }
+
+  /**
+   * 加入缓存，并淘汰最久没有使用的文件直到总大小不超过上限
+   */
+  private add(fileId: string, file: AttachmentFile) {
+    if (file.data.length > this.maxBytes) return
+
+    this.files.set(fileId, file)
+    this.totalBytes += file.data.length
+    for (const [id, oldFile] of this.files) {
+      if (this.totalBytes <= this.maxBytes) break
+      this.files.delete(id)
+      this.totalBytes -= oldFile.data.length
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { Context, Session, h } from 'koishi'
+import { BlackboardWatcherConfig, GradeRecord, CourseInfo } from '../types'
+import { BlackboardClient } from './blackboard'
+import { AuthError, describeError } from './errors'
+import { sendToSubscriptions } from './subscription'
+import { getCourseAlias } from './course_identity'
+import { renderTemplate, getInitValues } from './templates'
+import { getGradeRecords, createGradeRecords, updateGradeRecord, createDigestItems, getSubscriptions } from '../database'
+import { parseJSON, convertToTime } from '../utils'
+
+type GradeRecordInfo = Omit<GradeRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+
+// 一项新公布的成绩，或有变化的成绩及其旧记录
+interface GradeChange {
+  record: GradeRecordInfo
+  oldRecord?: GradeRecord
+}
+
+/**
+ * 成绩处理器类
+ */
+export class GradeHandler {
+  private logger: any
+
+  constructor(
+    private ctx: Context,
+    private userId: string,
+    private config: BlackboardWatcherConfig,
+    private blackboard: BlackboardClient,
+    private session: Session,
+    private courses: CourseInfo[] | null = null  // 查询通知时得到的课程列表，没有时由成绩处理器自己获取
+  ) {
+    this.logger = ctx.logger('pku-blackboard-watcher')
+  }
+
+  /**
+   * 描述成绩的分数，如 "85 / 100"
+   */
+  private describeScore(record: GradeRecordInfo): string {
+    return record.pointsPossible ? `${record.score} / ${record.pointsPossible}` : record.score
+  }
+
+  /**
+   * 描述成绩的变化，用于提醒消息与摘要
+   */
+  private describeGradeChange({ record, oldRecord }: GradeChange): string {
+    let text = oldRecord && this.describeScore(oldRecord) !== this.describeScore(record)
+      ? `成绩有更新：${this.describeScore(oldRecord)} → ${this.describeScore(record)}`
+      : `成绩：${this.describeScore(record)}`
+    if (record.feedback) {
+      text += `\n评语：${record.feedback}`
+    }
+    return text
+  }
+
+  /**
+   * 生成成绩提醒消息的标题，如果用户提供了该课程的别名，则使用别名
+   */
+  private generateSubject(record: GradeRecordInfo): string {
+    const aliases = parseJSON(this.config.courseAliases, {})
+    const course = getCourseAlias(aliases, record.course, record.courseId)
+    return `[成绩] ${course}：${record.name}`
+  }
+
+  /**
+   * 由成绩变化生成私聊提醒消息，包含分数与评语
+   */
+  private generateGradeMessage(change: GradeChange): string {
+    // 评语中的 < 与 & 等字符需要转义，避免被当作消息元素解析
+    return this.generateSubject(change.record) + '\n' + h.escape(this.describeGradeChange(change))
+  }
+
+  /**
+   * 由成绩变化生成转发到群聊的消息，不包含分数与评语
+   */
+  private generateGroupMessage(change: GradeChange): string {
+    const action = change.oldRecord ? '成绩有更新' : '成绩已公布'
+    return `${this.generateSubject(change.record)}\n${action}，分数只在私聊中发送`
+  }
+
+  /**
+   * 主处理函数，获取各门课程的成绩、找出新公布或有变化的成绩、发送消息、更新数据库表，返回是否处理成功
+   */
+  async process(): Promise<boolean> {
+    try {
+      // 1. 获取当前的课程列表与已处理的成绩记录，并通过数据库表中的特殊记录判断是否需要初始化
+      const courses = this.courses || await this.blackboard.getCourseList()
+      const oldRecords = await getGradeRecords(this.ctx, this.userId)
+      const oldRecordMap = new Map(oldRecords.map(record => [`${record.courseId}:${record.itemId}`, record]))
+      const isInit = !oldRecordMap.has(':%init%')
+      // 已经有成绩记录或课程标记记录的课程
+      const knownCourseIds = new Set(oldRecords.map(record => record.courseId))
+
+      // 2. 逐门课程获取成绩，与已有记录比较
+      const changes: GradeChange[] = []
+      const seededRecords: GradeRecordInfo[] = []
+      const failedCourses: string[] = []
+      for (const course of courses) {
+        let grades
+        try {
+          grades = await this.blackboard.getGrades(course.id)
+        } catch (e) {
+          if (e instanceof AuthError) throw e
+          // 某门课程获取失败时跳过，下次检查时重试
+          this.logger.warn(`获取课程 ${course.name} 的成绩失败：${describeError(e)}`)
+          failedCourses.push(course.name)
+          continue
+        }
+
+        // 第一次见到的课程（如新选的课程）添加标记记录，之后没有成绩的课程也能识别为已同步
+        const isNewCourse = !knownCourseIds.has(course.id)
+        if (isNewCourse) {
+          seededRecords.push({ courseId: course.id, course: course.name, itemId: '%init%', name: '课程标记', score: '', pointsPossible: '', feedback: '' })
+        }
+
+        for (const grade of grades) {
+          const record = { courseId: course.id, course: course.name, ...grade }
+          // 新课程已有的成绩与初始化时一样只保存，不提醒
+          if (isNewCourse && !isInit) {
+            seededRecords.push(record)
+            continue
+          }
+          const oldRecord = oldRecordMap.get(`${course.id}:${grade.itemId}`)
+          if (!oldRecord) {
+            changes.push({ record })
+          } else if (oldRecord.score !== record.score || oldRecord.pointsPossible !== record.pointsPossible || oldRecord.feedback !== record.feedback) {
+            changes.push({ record, oldRecord })
+          }
+        }
+      }
+
+      // 3. 如果是初始化，发送初始化成功消息并添加初始化标记记录
+      if (isInit) {
+        // 有课程获取失败时不完成初始化，避免这些课程已有的成绩之后被当作新成绩提醒
+        if (failedCourses.length > 0) {
+          await this.session.send(`成绩提醒模块初始化失败：无法获取课程 ${failedCourses.join('、')} 的成绩，将在下次检查时重试`)
+          return false
+        }
+
+        await this.session.send(renderTemplate('init', this.config.initTemplate, getInitValues('grade', changes.length)))
+        await createGradeRecords(this.ctx, this.userId, [
+          ...changes.map(change => change.record),
+          ...seededRecords,
+          { courseId: '', course: '', itemId: '%init%', name: '初始化标记', score: '', pointsPossible: '', feedback: '' }
+        ])
+        return true
+      }
+
+      // 4. 否则对新公布或有变化的成绩进行提醒，用户关闭了私聊提醒时只转发到群聊
+      const privateChanges = this.config.notifyPrivate ? changes : []
+      if (this.config.deliveryMode === 'immediate') {
+        for (const change of privateChanges) {
+          await this.session.send(this.generateGradeMessage(change))
+        }
+      } else {
+        // 汇总发送模式下先暂存，由定时服务按时合并发送
+        await createDigestItems(this.ctx, this.userId, privateChanges.map(change => ({
+          type: 'grade',
+          itemId: change.record.itemId,
+          course: change.record.course,
+          title: change.record.name,
+          content: this.describeGradeChange(change),
+          time: convertToTime(Date.now()),
+          endDate: ''
+        })))
+      }
+
+      // 转发到订阅了成绩事件的群聊，群聊中不显示分数
+      const subscriptions = await getSubscriptions(this.ctx, this.userId)
+      if (subscriptions.length > 0) {
+        const aliases = parseJSON(this.config.courseAliases, {})
+        for (const change of changes) {
+          const item = { type: 'grade' as const, course: change.record.course, courseId: change.record.courseId, event: 'GB:GB_GRA_UPDATED' }
+          await sendToSubscriptions(this.ctx, subscriptions, item, aliases, this.generateGroupMessage(change))
+        }
+      }
+
+      // 5. 保存新的成绩记录与新课程同步的记录，并更新有变化的成绩记录
+      await createGradeRecords(this.ctx, this.userId, [
+        ...changes.filter(change => !change.oldRecord).map(change => change.record),
+        ...seededRecords
+      ])
+      for (const { record, oldRecord } of changes.filter(change => change.oldRecord)) {
+        await updateGradeRecord(this.ctx, oldRecord.id, record)
+      }
+
+      return true
+
+    } catch (error) {
+      // 登录失败时其余查询也无法进行，交给调用者统一处理
+      if (error instanceof AuthError) throw error
+      await this.session.send(`处理成绩时发生错误：${describeError(error)}`)
+      return false
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import { h } from 'koishi'
+
+// 块级元素，前后换行
+const blockTags = new Set(['p', 'div', 'section', 'article', 'header', 'footer', 'blockquote', 'pre', 'table', 'tr', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'])
+
+// 内容不需要显示的元素
+const skippedTags = new Set(['script', 'style', 'head', 'title'])
+
+// 常见的具名 HTML 实体
+const namedEntities: Record<string, string> = {
+  'nbsp': ' ',
+  'amp': '&',
+  'lt': '<',
+  'gt': '>',
+  'quot': '"',
+  'apos': '\'',
+  'ldquo': '“',
+  'rdquo': '”',
+  'lsquo': '‘',
+  'rsquo': '’',
+  'hellip': '…',
+  'mdash': '—',
+  'ndash': '–',
+  'middot': '·',
+  'times': '×',
+  'divide': '÷',
+  'copy': '©',
+  'yen': '¥'
+}
+
+/**
+ * 解码 HTML 实体，如 &amp;、&nbsp;、&#20013; 与 &#x4e2d;
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      try {
+        return String.fromCodePoint(point)
+      } catch {
+        return match
+      }
+    }
+    return namedEntities[code.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * 读取标签的属性值
+ */
+function getAttribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? '').trim() : ''
+}
+
+/**
+ * 整理文本中的空白：去除行首行尾多余的空格，连续的换行只保留一个
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/ +\n/g, '\n')
+    .replace(/\n (?=\S)/g, '\n')
+    .replace(/\n{2,}/g, '\n')
+}
+
+/**
+ * 把通知内容的 html 转换为 Koishi 的文本与图片元素
+ * 段落与列表转为换行与项目符号，链接在文字后附上网址，图片转为图片元素（只有完整网址的图片，其余显示为 [图片]）
+ */
+export function renderHtml(html: string): h[] {
+  if (!html) return []
+
+  const parts: (string | h)[] = ['']
+  const lists: { ordered: boolean, count: number }[] = []
+  let link: { href: string, text: string } | null = null
+  let skipping = ''
+
+  // 追加文本，位于链接内时同时记录链接文字
+  const append = (text: string) => {
+    parts[parts.length - 1] += text
+    if (link) link.text += text
+  }
+
+  for (const token of html.split(/(<[^>]*>)/)) {
+    if (!token) continue
+
+    if (!token.startsWith('<')) {
+      if (!skipping) append(decodeEntities(token.replace(/\s+/g, ' ')))
+      continue
+    }
+
+    // 忽略注释与 doctype 等非元素标签
+    const match = token.match(/^<(\/?)([a-z][a-z0-9]*)/i)
+    if (!match) continue
+    const closing = !!match[1]
+    const name = match[2].toLowerCase()
+
+    if (skipping) {
+      if (closing && name === skipping) skipping = ''
+      continue
+    }
+    if (skippedTags.has(name)) {
+      if (!closing && !token.endsWith('/>')) skipping = name
+      continue
+    }
+
+    switch (name) {
+      case 'br':
+        append('\n')
+        break
+      case 'ul':
+      case 'ol':
+        if (closing) {
+          lists.pop()
+        } else {
+          lists.push({ ordered: name === 'ol', count: 0 })
+        }
+        append('\n')
+        break
+      case 'li':
+        if (closing) {
+          append('\n')
+        } else {
+          // 嵌套的列表逐层缩进，有序列表使用序号
+          const list = lists[lists.length - 1]
+          const indent = '  '.repeat(Math.max(0, lists.length - 1))
+          append(`\n${indent}${list?.ordered ? `${++list.count}. ` : '• '}`)
+        }
+        break
+      case 'a':
+        if (!closing) {
+          link = { href: getAttribute(token, 'href'), text: '' }
+        } else if (link) {
+          // 只保留完整的网址，文字本身就是网址时不再重复
+          const { href, text } = link
+          link = null
+          if (/^https?:\/\//i.test(href) && text.trim() !== href) {
+            append(text.trim() ? `（${href}）` : href)
+          }
+        }
+        break
+      case 'img': {
+        const src = getAttribute(token, 'src')
+        if (/^https?:\/\//i.test(src)) {
+          parts.push(h.image(src), '')
+        } else {
+          append('[图片]')
+        }
+        break
+      }
+      default:
+        if (blockTags.has(name)) append('\n')
+    }
+  }
+
+  // 整理文本中的空白，去除开头与结尾的空白，并转换为元素
+  const elements: h[] = []
+  parts.forEach((part, index) => {
+    if (typeof part !== 'string') {
+      elements.push(part)
+      return
+    }
+    let text = normalizeText(part)
+    if (index === 0) text = text.trimStart()
+    if (index === parts.length - 1) text = text.trimEnd()
+    if (text) elements.push(h.text(text))
+  })
+  return elements
+}
+
+/**
+ * 把通知内容的 html 转换为纯文本，保留段落与列表的换行，图片显示为 [图片]
+ */
+export function htmlToText(html: string): string {
+  return renderHtml(html).map(element => element.type === 'text' ? element.attrs.content : '[图片]').join('')
+}
+
+/**
+ * 截断过长的内容，在末尾附上提示；图片不计入长度
+ */
+export function truncateElements(elements: h[], maxLength: number, hint: string): h[] {
+  const result: h[] = []
+  let length = 0
+  for (const element of elements) {
+    if (element.type !== 'text') {
+      result.push(element)
+      continue
+    }
+    const content: string = element.attrs.content
+    if (length + content.length > maxLength) {
+      result.push(h.text(content.slice(0, maxLength - length).trimEnd() + '…'), h.text(`\n${hint}`))
+      return result
+    }
+    result.push(element)
+    length += content.length
+  }
+  return result
+}
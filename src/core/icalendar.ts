@@ -0,0 +1,145 @@
+import { Context } from 'koishi'
+import { AssignmentRecord, BlackboardWatcherConfig } from '../types'
+import { getAssignmentRecords } from '../database'
+import { getCourseAlias } from './course_identity'
+import { parseJSON, convertToTimestamp, getReminderStages } from '../utils'
+import { } from '@koishijs/plugin-server'
+
+// 生成的日历中保留已截止多少天以内的日程
+const KEEP_EXPIRED_DAYS = 30
+
+/**
+ * 转义 iCalendar 文本属性值中的特殊字符
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * 按 RFC 5545 的要求将超过 75 字节的内容行折叠为多行
+ */
+function foldLine(line: string): string {
+  const lines: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char)
+    if (currentBytes + bytes > 75) {
+      lines.push(current)
+      // 续行以一个空格开头，空格也计入长度
+      current = ' '
+      currentBytes = 1
+    }
+    current += char
+    currentBytes += bytes
+  }
+  lines.push(current)
+
+  return lines.join('\r\n')
+}
+
+/**
+ * 将毫秒时间戳转换为 iCalendar 的 UTC 时间格式（如 20250301T155900Z）
+ */
+function formatICSTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * 由用户的日程记录生成 iCalendar 格式的日历，每个日程附带由提醒阶段得到的 VALARM 提醒
+ */
+export function generateICS(records: AssignmentRecord[], config: BlackboardWatcherConfig): string {
+  const aliases = parseJSON(config.courseAliases, {})
+  const stages = getReminderStages(config.calendarAdvanceHours, config.calendarReminderStages)
+  const now = Date.now()
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//pku-blackboard-watcher//Blackboard DDL//ZH',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:教学网 DDL',
+    'X-WR-TIMEZONE:Asia/Shanghai'
+  ]
+
+  for (const record of records) {
+    // 跳过初始化标记、旧版本写入的没有原始截止时间的记录，以及截止已久的日程
+    if (record.assignmentId === '%init%' || !record.endDate) continue
+    const due = convertToTimestamp(record.endDate)
+    if (isNaN(due) || due < now - KEEP_EXPIRED_DAYS * 86400000) continue
+
+    let summary: string
+    if (record.course === '个人') {
+      summary = record.title
+    } else {
+      const course = getCourseAlias(aliases, record.course)
+      const sep = course.length > 0 ? '：' : ''
+      summary = course + sep + record.title
+    }
+    if (!record.shouldNotify) {
+      summary += '（已提交）'
+    }
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${record.assignmentId}@course.pku.edu.cn`,
+      `DTSTAMP:${formatICSTime(record.updatedAt ? record.updatedAt.getTime() : now)}`,
+      `DTSTART:${formatICSTime(due)}`,
+      `DTEND:${formatICSTime(due)}`,
+      `SUMMARY:${escapeText(summary)}`
+    )
+    if (record.description) {
+      lines.push(`DESCRIPTION:${escapeText(record.description)}`)
+    }
+
+    // 已提交的作业不再需要提醒
+    if (record.shouldNotify) {
+      for (const hours of stages) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(summary)}`,
+          `TRIGGER:-PT${Math.round(hours * 60)}M`,
+          'END:VALARM'
+        )
+      }
+    }
+
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * 通过 Koishi 的 HTTP 服务器提供日历订阅链接，每个用户以各自的密钥访问
+ */
+export function registerICSFeed(ctx: Context) {
+  ctx.server.get('/blackboard/ics/:token', async (koaCtx) => {
+    const token = koaCtx.params.token.replace(/\.ics$/, '')
+    if (!token) {
+      koaCtx.status = 404
+      return
+    }
+
+    const bbConfigs = await ctx.database.get('bb_watcher_config', { icsToken: token })
+    const bbConfig = bbConfigs[0]
+    if (!bbConfig) {
+      koaCtx.status = 404
+      return
+    }
+
+    // 日历由数据库中保存的日程记录生成，不需要实时访问教学网
+    const records = await getAssignmentRecords(ctx, bbConfig.userId)
+    koaCtx.type = 'text/calendar; charset=utf-8'
+    koaCtx.body = generateICS(records, bbConfig)
+  })
+}
@@ -1,52 +1,99 @@
-import { Context, Session } from 'koishi'
-import { BlackboardWatcherConfig, NoticeRecord } from '../types'
+import { Context, Session, h } from 'koishi'
+import { BlackboardWatcherConfig, NoticeRecord, NoticeRule, Attachment, CourseInfo } from '../types'
 import { BlackboardClient } from './blackboard'
-import { getNoticeRecords, createNoticeRecords } from '../database'
-import { parseTitle, parseContent, convertToTime, removeSuffix, parseJSON, convertTimezone, parseInstruction } from '../utils'
+import { AuthError, describeError } from './errors'
+import { sendAttachments } from './attachments'
+import { sendToSubscriptions } from './subscription'
+import { checkEventAllowed } from './event_types'
+import { findMatchingRule, describeRule } from './notice_rules'
+import { findCourseValue } from './course_identity'
+import { renderHtml } from './html_render'
+import { renderTemplate, getNoticeValues, getInitValues } from './templates'
+import { getNoticeRecords, createNoticeRecords, createDigestItems, createOutboxMessage, getSubscriptions, getNoticeRules, upsertBBConfig } from '../database'
+import { parseTitle, parseContent, convertToTime, parseCourseList, parseJSON, convertTimezone, parseInstruction, parseAttachments } from '../utils'
 
 /**
  * 通知处理器类
  */
 export class NoticeHandler {
   private logger: any
+  private attachments: Map<string, Attachment[]> = new Map()  // 新通知（按通知 ID）需要转发的附件
+  private bodies: Map<string, h[]> = new Map()  // 新通知（按通知 ID）渲染后的内容，保留段落、链接与图片
+  courses: CourseInfo[] | null = null  // 本次从通知数据中得到的课程列表，供成绩处理器复用，获取失败时为 null
 
   constructor(
     private ctx: Context,
     private userId: string,
     private config: BlackboardWatcherConfig,
     private blackboard: BlackboardClient,
-    private session: Session
+    private session: Session,
+    private deferAttachments: boolean = false  // 是否只暂存附件的引用，由定时查询在免打扰时段内设置，时段结束后再下载发送
   ) {
     this.logger = ctx.logger('pku-blackboard-watcher')
   }
 
   /**
-   * 根据用户的配置判断事件是否需要通知
+   * 根据用户的过滤规则与通知类型配置判断通知是否需要提醒，并记录判断的原因
+   * 先按优先级匹配关键词与正则规则，都不匹配时再按事件类型判断
    */
-  private isEventAllowed(course: string, event: string): boolean {
+  private decideNotify(rules: NoticeRule[], course: string, courseId: string, title: string, content: string, event: string): { shouldNotify: boolean, trace: string } {
+    const aliases = parseJSON(this.config.courseAliases, {})
+    const rule = findMatchingRule(rules, { title, content, course, alias: findCourseValue(aliases, course, courseId) || '' })
+    if (rule) {
+      const shouldNotify = rule.action === 'include'
+      return { shouldNotify, trace: `匹配过滤规则（优先级 ${rule.priority}）：${describeRule(rule)}` }
+    }
+
     const specificEvents = parseJSON(this.config.specificCourseEvents, {})
-    const allowedEvents = specificEvents[course.toLowerCase()] || this.config.generalAllowedEvents
+    const { allowed, reason } = checkEventAllowed(this.config.generalAllowedEvents, specificEvents, course, event, courseId)
+    return { shouldNotify: allowed, trace: `没有匹配的过滤规则，${reason}` }
+  }
 
-    if (event.startsWith('AS')) {
-      return allowedEvents.includes('1')
-    } else if (event.startsWith('CO')) {
-      return allowedEvents.includes('2')
+  /**
+   * 用户是否为这门课程开启了附件转发
+   */
+  private shouldForwardAttachments(course: string, courseId: string): boolean {
+    if (this.config.attachmentMaxSize <= 0) return false
+    return !!findCourseValue(parseJSON(this.config.attachmentCourses, {}), course, courseId)
+  }
+
+  /**
+   * 发送通知的附件，需要延后发送时暂存到待发送消息表
+   */
+  private async forwardAttachments(noticeId: string): Promise<void> {
+    const attachments = this.attachments.get(noticeId) || []
+    if (attachments.length === 0) return
+    if (this.deferAttachments) {
+      await createOutboxMessage(this.ctx, this.userId, '', attachments)
     } else {
-      return allowedEvents.includes('3')
+      await sendAttachments(this.blackboard, this.config, attachments, message => this.session.send(message))
     }
   }
 
   /**
    * 从原始通知条目 notice entry 中提取有效信息，并整合为一条 record
    */
-  private async filterNoticeInfo(entry: any, courseDict: Record<string, string>, isInit: boolean): Promise<Omit<NoticeRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>> {
+  private async filterNoticeInfo(entry: any, courseDict: Record<string, string>, rules: NoticeRule[], isInit: boolean): Promise<Omit<NoticeRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>> {
     const id = entry.se_id
     const time = convertToTime(entry.se_timestamp)
-    const course = courseDict[entry.se_courseId] || ''
+    const courseId = entry.se_courseId || ''
+    const course = courseDict[courseId] || ''
     const title = parseTitle(entry.se_context || '')
     let content = parseContent(entry.se_details || '')
+    const body = renderHtml(entry.se_details || '')
+    // 在渲染后的内容末尾追加一行文本
+    const appendLine = (text: string) => {
+      content += `\n${text}`
+      body.push(h.text(body.length > 0 ? `\n${text}` : text))
+    }
     const event = entry.extraAttribs?.event_type || ''
-    const shouldNotify = this.isEventAllowed(course, event)
+    const { shouldNotify, trace } = this.decideNotify(rules, course, courseId, title, content, event)
+    const forwardAttachments = shouldNotify && !isInit && this.shouldForwardAttachments(course, courseId)
+
+    // 内容通知的附件链接在通知详情中
+    if (event === 'CO:CO_AVAIL' && forwardAttachments) {
+      this.attachments.set(id, parseAttachments(entry.se_details || ''))
+    }
 
     // 如果是作业可用事件且需要通知，则在 content 里添加作业要求和截止时间
     if (event === 'AS:AS_AVAIL' && entry.se_itemUri && shouldNotify && !isInit) {
@@ -54,65 +101,71 @@ export class NoticeHandler {
         const assignmentHtml = await this.blackboard.getAssignmentFromNotice(entry.se_itemUri)
         const instruction = parseInstruction(assignmentHtml)
         if (instruction.length > 0) {
-          content += `\n${instruction}`
+          appendLine(instruction)
+        }
+        if (forwardAttachments) {
+          this.attachments.set(id, parseAttachments(assignmentHtml))
         }
         const deadline = entry.itemSpecificData?.notificationDetails?.dueDate
         if (deadline) {
-          content += `\n截止时间：${convertTimezone(deadline)}`
+          appendLine(`截止时间：${convertTimezone(deadline)}`)
         }
       } catch (e) {
         this.logger.error('获取作业详情失败:', e)
       }
     }
 
+    if (!isInit) {
+      this.bodies.set(id, body)
+    }
+
     return {
       noticeId: id,
       time,
       course,
+      courseId,
       title,
       content: content.trim(),
       event,
-      shouldNotify
+      shouldNotify,
+      trace: isInit ? `首次运行时同步的已有通知，不提醒（${trace}）` : trace
     }
   }
 
   /**
-   * 由 notice record 生成对应的消息标题与内容，并发送给用户
+   * 由 notice record 按用户的模板生成对应的提醒消息，内容过长时截断并提示使用 bb.notices 查看完整内容
    */
-  private async notifyNotice(record: Omit<NoticeRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<void> {
-    // 生成消息标题
-    const aliases = parseJSON(this.config.courseAliases, {})
-    // 如果用户提供了该课程的别名，则使用别名
-    const course = aliases[record.course.toLowerCase()] || record.course
-    const sep = course.length > 0 ? '：' : ''
-    const subject = this.config.noticeTitlePrefix + ' ' + course + sep + record.title
-
-    // 生成消息内容，显示通知发布时间
-    let body = record.content
-    body += `\n发布时间：${record.time}`
-
-    await this.session.send(subject + '\n' + body.trim())
+  private generateNoticeMessage(record: Omit<NoticeRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): h[] {
+    const values = getNoticeValues(this.config, record, this.bodies.get(record.noticeId))
+    return renderTemplate('notice', this.config.noticeTemplate, values)
   }
 
   /**
-   * 主处理函数，获取通知、过滤通知、发送消息、更新数据库表
+   * 主处理函数，获取通知、过滤通知、发送消息、更新数据库表，返回是否处理成功
    */
-  async process(): Promise<void> {
+  async process(): Promise<boolean> {
     try {
       // 1. 从教学网获取通知原始信息
       const noticeData = await this.blackboard.getNoticeData()
 
       // 生成课程 ID 到课程名的映射
-      const courseList = noticeData.sv_extras?.sx_courses || []
+      const courses = this.courses = parseCourseList(noticeData)
       const courseDict: Record<string, string> = {}
-      for (const course of courseList) {
-        courseDict[course.id] = removeSuffix(course.name)
+      for (const course of courses) {
+        courseDict[course.id] = course.name
+      }
+
+      // 课程列表有变化时更新保存的课程列表，课程序号与未对应课程的提示都按它计算
+      const courseList = JSON.stringify(courses)
+      if (courses.length > 0 && courseList !== this.config.courseList) {
+        await upsertBBConfig(this.ctx, this.userId, { courseList })
       }
 
       // 2. 获取已处理的通知记录，并通过数据库表中的特殊记录判断是否需要初始化
       const oldNoticeRecords = await getNoticeRecords(this.ctx, this.userId)
       const oldNoticeIds = new Set(oldNoticeRecords.map(record => record.noticeId))
       const isInit = !oldNoticeIds.has('%init%')
+      const rules = await getNoticeRules(this.ctx, this.userId)
 
       // 3. 从所有通知中过滤出新的（数据库中没有记录的）通知，并提取通知信息
       const updatedNoticeRecords: Omit<NoticeRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[] = []
@@ -120,33 +173,58 @@ export class NoticeHandler {
 
       for (const entry of streamEntries) {
         if (!oldNoticeIds.has(entry.se_id)) {
-          const record = await this.filterNoticeInfo(entry, courseDict, isInit)
+          const record = await this.filterNoticeInfo(entry, courseDict, rules, isInit)
           updatedNoticeRecords.push(record)
         }
       }
 
       // 4. 如果是初始化，发送初始化成功消息并添加初始化标记记录
       if (isInit) {
-        await this.session.send(`通知提醒模块首次运行成功！\n初始化已完成，从教学网同步了 ${updatedNoticeRecords.length} 条已有通知。之后就可以自动检测新的通知并提醒您了~`)
+        await this.session.send(renderTemplate('init', this.config.initTemplate, getInitValues('notice', updatedNoticeRecords.length)))
 
         // 添加初始化标记记录
         const initRecord = {
           noticeId: '%init%',
           time: convertToTime(Date.now()),
           course: '',
+          courseId: '',
           title: '初始化标记',
           content: '通知提醒模块初始化完成',
           event: '',
-          shouldNotify: false
+          shouldNotify: false,
+          trace: ''
         }
         updatedNoticeRecords.push(initRecord)
       } else {
-        // 否则根据用户对课程与 event 的屏蔽设置，选择性地对新通知进行提醒
-        for (const record of updatedNoticeRecords) {
-          if (record.shouldNotify) {
-            await this.notifyNotice(record)
-          } else {
-            // this.logger.info(`通知已忽略：${record.title}（${record.course}）`)
+        // 否则根据用户对课程与 event 的屏蔽设置，选择性地对新通知进行提醒，用户关闭了私聊提醒时只转发到群聊
+        const notifyRecords = this.config.notifyPrivate ? updatedNoticeRecords.filter(record => record.shouldNotify) : []
+
+        if (this.config.deliveryMode === 'immediate') {
+          for (const record of notifyRecords) {
+            await this.session.send(this.generateNoticeMessage(record))
+            await this.forwardAttachments(record.noticeId)
+          }
+        } else {
+          // 汇总发送模式下先暂存，由定时服务按时合并发送，附件在摘要之后发送
+          await createDigestItems(this.ctx, this.userId, notifyRecords.map(record => ({
+            type: 'notice',
+            itemId: record.noticeId,
+            course: record.course,
+            title: record.title,
+            content: record.content,
+            time: record.time,
+            endDate: '',
+            attachments: JSON.stringify(this.attachments.get(record.noticeId) || [])
+          })))
+        }
+
+        // 转发到订阅的群聊，用户的过滤规则与通知类型设置屏蔽的通知不转发，其余通知由每个群聊按自己的过滤条件选择，不受私聊提醒设置的影响
+        const subscriptions = await getSubscriptions(this.ctx, this.userId)
+        if (subscriptions.length > 0) {
+          const aliases = parseJSON(this.config.courseAliases, {})
+          for (const record of updatedNoticeRecords.filter(record => record.shouldNotify)) {
+            const item = { type: 'notice' as const, course: record.course, courseId: record.courseId, event: record.event }
+            await sendToSubscriptions(this.ctx, subscriptions, item, aliases, this.generateNoticeMessage(record))
           }
         }
       }
@@ -156,9 +234,14 @@ export class NoticeHandler {
         await createNoticeRecords(this.ctx, this.userId, updatedNoticeRecords)
       }
 
+      return true
+
     } catch (error) {
+      // 登录失败时其余查询也无法进行，交给调用者统一处理
+      if (error instanceof AuthError) throw error
       // this.logger.error('处理通知时发生错误：', error)
-      await this.session.send(`处理通知时发生错误：${error.message}`)
+      await this.session.send(`处理通知时发生错误：${describeError(error)}`)
+      return false
     }
   }
 }
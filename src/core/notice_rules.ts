@@ -0,0 +1,114 @@
+import { NoticeRule } from '../types'
+
+// 规则可以匹配的通知字段及其名称
+export const ruleFields = {
+  'title': '标题',
+  'content': '内容',
+  'course': '课程',
+  'all': '标题、内容或课程'
+}
+
+/**
+ * 用于匹配规则的通知信息，course 为课程原始名称，alias 为用户设置的课程别名
+ */
+export interface RuleTarget {
+  title: string
+  content: string
+  course: string
+  alias: string
+}
+
+// 正则表达式的长度上限，以及正则匹配时每个字段最多检查的字符数，避免一条规则拖慢所有用户的查询
+const MAX_PATTERN_LENGTH = 100
+const MAX_MATCH_LENGTH = 2000
+
+/**
+ * 判断正则表达式中是否有嵌套的不限次数量词，如 (a+)+，这类表达式匹配失败时的回溯次数会随文本长度指数增长
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = []  // 每层未闭合的分组内是否出现过不限次数的量词
+  let closedGroupRepeated = false  // 刚闭合的分组内是否出现过不限次数的量词
+  let inClass = false
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    const afterRepeatedGroup = closedGroupRepeated
+    closedGroupRepeated = false
+    if (char === '\\') {
+      i++
+    } else if (inClass) {
+      inClass = char !== ']'
+    } else if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      closedGroupRepeated = groups.pop() ?? false
+      if (closedGroupRepeated && groups.length > 0) groups[groups.length - 1] = true
+    } else if (char === '*' || char === '+' || /^\{\d+,\d*\}/.test(pattern.slice(i))) {
+      if (afterRepeatedGroup) return true
+      if (groups.length > 0) groups[groups.length - 1] = true
+    }
+  }
+  return false
+}
+
+/**
+ * 校验规则的匹配模式，正则表达式无效、过长或可能匹配过慢时返回错误信息，有效时返回 null
+ */
+export function validateRulePattern(pattern: string, isRegex: boolean): string | null {
+  if (!pattern.trim()) return '匹配内容不能为空'
+  if (!isRegex) return null
+  if (pattern.length > MAX_PATTERN_LENGTH) return `正则表达式不能超过 ${MAX_PATTERN_LENGTH} 个字符`
+  try {
+    new RegExp(pattern, 'i')
+  } catch (e) {
+    return `无效的正则表达式：${e.message}`
+  }
+  if (hasNestedQuantifier(pattern)) return '正则表达式不能在带有 *、+ 等量词的分组后再使用这类量词（如 (a+)+），否则匹配可能非常耗时'
+  return null
+}
+
+/**
+ * 按优先级排列规则，priority 越小越先匹配，相同时先添加的规则优先
+ */
+export function sortNoticeRules(rules: NoticeRule[]): NoticeRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.id - b.id)
+}
+
+/**
+ * 判断一条规则是否匹配通知，关键词与正则表达式都不区分大小写
+ */
+export function matchesRule(rule: NoticeRule, target: RuleTarget): boolean {
+  const fields = {
+    'title': [target.title],
+    'content': [target.content],
+    'course': [target.course, target.alias],
+    'all': [target.title, target.content, target.course, target.alias]
+  }
+  const texts = (fields[rule.field] || fields.all).filter(Boolean)
+
+  if (rule.isRegex) {
+    // 不满足校验条件的旧规则不再匹配，过长的内容只检查开头部分
+    if (validateRulePattern(rule.pattern, true)) return false
+    const regex = new RegExp(rule.pattern, 'i')
+    return texts.some(text => regex.test(text.slice(0, MAX_MATCH_LENGTH)))
+  }
+  const keyword = rule.pattern.toLowerCase()
+  return texts.some(text => text.toLowerCase().includes(keyword))
+}
+
+/**
+ * 描述一条规则，如 "提醒标题包含「期中」的通知"
+ */
+export function describeRule(rule: NoticeRule): string {
+  const action = rule.action === 'exclude' ? '屏蔽' : '提醒'
+  const match = rule.isRegex ? `匹配正则 /${rule.pattern}/` : `包含「${rule.pattern}」`
+  return `${action}${ruleFields[rule.field] || ruleFields.all}${match}的通知`
+}
+
+/**
+ * 按优先级依次匹配规则，返回第一条匹配的规则，都不匹配时返回 null
+ */
+export function findMatchingRule(rules: NoticeRule[], target: RuleTarget): NoticeRule | null {
+  return sortNoticeRules(rules).find(rule => matchesRule(rule, target)) || null
+}
@@ -0,0 +1,25 @@
+import { delay } from '../utils'
+
+/**
+ * 全局请求速率限制器，所有共用同一个实例的客户端发出的请求之间至少间隔 1 / requestsPerSecond 秒
+ */
+export class RateLimiter {
+  private interval: number
+  private next: number = 0  // 下一个请求最早可以发出的时间
+
+  constructor(requestsPerSecond: number) {
+    this.interval = 1000 / requestsPerSecond
+  }
+
+  /**
+   * 等待直到可以发出下一个请求
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now()
+    const wait = Math.max(0, this.next - now)
+    this.next = Math.max(now, this.next) + this.interval
+    if (wait > 0) {
+      await delay(wait)
+    }
+  }
+}
@@ -1,102 +1,339 @@
-import { Context } from 'koishi'
-import { Config } from '../types'
-import { CryptoUtils, delay } from '../utils'
+import { Context, h } from 'koishi'
+import { Config, IAAAUser, BlackboardWatcherConfig, DigestItem, OutboxMessage, CourseInfo, Attachment } from '../types'
+import { CryptoUtils, parseJSON, isInQuietHours, isInActiveHours, getUserCheckInterval } from '../utils'
+import { createBlackboardClient, saveBlackboardSession } from './session'
+import { getIAAAUser, getOrCreateBBConfig, getAllDigestItems, getAllOutboxMessages, createOutboxMessage, removeOutboxMessages, recordAuthFailure, clearAuthFailures, updateNextCheckAt, isQuarantinedUserId } from '../database'
+import { AuthError } from './errors'
 import { BlackboardClient } from './blackboard'
-import { getIAAAUser, getOrCreateBBConfig } from '../database'
+import { RateLimiter } from './rate_limiter'
+import { FileCache } from './file_cache'
 import { NoticeHandler } from './notice_handler'
 import { CalendarHandler } from './calendar_handler'
+import { GradeHandler } from './grade_handler'
+import { DigestHandler } from './digest_handler'
+import { sendAttachments } from './attachments'
 import { } from "koishi-plugin-cron";
 
+// 单个用户的查询结果
+type CheckResult = 'success' | 'failure' | 'skipped'
+
+// 一轮定时查询的统计结果
+export interface CheckSummary {
+  success: number
+  failure: number
+  skipped: number
+  duration: number  // 用时（毫秒）
+}
+
 /**
- * 定时服务类，每隔 checkInterval 分钟为所有用户查询新通知和日程 DDL
+ * 定时服务类，记录每个用户的下一次检查时间，定时为到期的用户查询新通知和日程 DDL
  */
 export class ScheduleService {
   private ctx: Context
   private config: Config
   private crypto: CryptoUtils
   private disposeTask?: () => void
+  private disposeDeliveryTask?: () => void
   private logger: any
+  private rateLimiter: RateLimiter
+  private fileCache: FileCache
+  private running: boolean = false  // 是否有一轮定时查询正在进行
 
-  constructor(ctx: Context, config: Config) {
+  constructor(ctx: Context, config: Config, rateLimiter: RateLimiter = new RateLimiter(config.requestsPerSecond)) {
     this.ctx = ctx
     this.config = config
     this.crypto = new CryptoUtils(config.encryptionKey)
     this.logger = ctx.logger('pku-blackboard-watcher')
+    this.rateLimiter = rateLimiter
+    this.fileCache = new FileCache(config.attachmentCacheSize)
+  }
+
+  /**
+   * 按用户记录的投递路线，通过对应平台的 bot 向用户发送私信
+   */
+  private async sendPrivateMessage(userId: string, bbConfig: BlackboardWatcherConfig, message: h.Fragment): Promise<void> {
+    // 还没有记录投递路线的用户，依次尝试用户在各个平台上关联的账号
+    if (!bbConfig.deliveryPlatform) {
+      const bindings = await this.ctx.database.get('binding', { aid: Number(userId) })
+      for (const binding of bindings) {
+        const bot = this.ctx.bots.find(bot => bot.platform === binding.platform)
+        if (!bot) continue
+        try {
+          await bot.sendPrivateMessage(binding.pid, message)
+          break
+        } catch (e) {
+          this.logger.error(`发送消息失败 (bot: ${bot.platform})：`, e)
+        }
+      }
+      return
+    }
+
+    // 优先使用记录的机器人账号，该账号不在线时换用同一平台的其他机器人，不会发到其他平台
+    const bot = this.ctx.bots.find(bot => bot.platform === bbConfig.deliveryPlatform && bot.selfId === bbConfig.deliverySelfId)
+      || this.ctx.bots.find(bot => bot.platform === bbConfig.deliveryPlatform)
+    if (!bot) {
+      this.logger.warn(`找不到平台 ${bbConfig.deliveryPlatform} 上的机器人，无法向用户 ${userId} 发送消息`)
+      return
+    }
+
+    try {
+      if (bbConfig.deliveryChannelId) {
+        await bot.sendMessage(bbConfig.deliveryChannelId, message)
+      } else {
+        await bot.sendPrivateMessage(bbConfig.deliveryUserId, message)
+      }
+    } catch (e) {
+      this.logger.error(`发送消息失败 (bot: ${bot.platform}:${bot.selfId})：`, e)
+    }
+  }
+
+  /**
+   * 创建一个模拟 session，通过 bot 向用户发送私信，免打扰时段内的消息先暂存到待发送消息表
+   * 通知的附件在免打扰时段内由处理器只暂存引用，发送时再下载
+   */
+  private createMockSession(userId: string, bbConfig: BlackboardWatcherConfig) {
+    return {
+      userId,
+      send: async (message: h.Fragment) => {
+        if (isInQuietHours(bbConfig.quietHoursStart, bbConfig.quietHoursEnd)) {
+          // 文本、图片与文件等元素按消息标记暂存（文件内容以 data URL 保存），发送时重新解析
+          await createOutboxMessage(this.ctx, userId, h.normalize(message).join(''))
+        } else {
+          await this.sendPrivateMessage(userId, bbConfig, message)
+        }
+      }
+    }
+  }
+
+  /**
+   * 为用户创建教学网客户端，优先复用保存的教学网会话，过期时才重新登录；所有用户的请求共享同一个速率限制
+   */
+  private createClient(iaaaUser: IAAAUser): BlackboardClient {
+    return createBlackboardClient(iaaaUser, this.crypto, this.logger, { ...this.config, rateLimiter: this.rateLimiter, fileCache: this.fileCache })
   }
 
   /**
-   * 为单个用户查询新通知和日程 DDL
+   * 为单个用户查询新通知和日程 DDL，返回查询结果
    */
-  async checkSingleUser(userId: string): Promise<void> {
+  async checkSingleUser(userId: string): Promise<CheckResult> {
     try {
       // 若用户还没有绑定 IAAA 登录信息，就跳过这个用户
       const iaaaUser = await getIAAAUser(this.ctx, userId)
-      if (!iaaaUser) return
+      if (!iaaaUser) return 'skipped'
 
-      // 若用户配置了对新通知和日程 DDL 都不需要提醒，就跳过这个用户
-      const bbConfig = await getOrCreateBBConfig(this.ctx, userId)
-      if (!bbConfig.notifyNotice && !bbConfig.notifyAssignment) return
+      // 若用户的 IAAA 账号连续登录失败而被暂停，就跳过这个用户，直到重新绑定
+      if (iaaaUser.suspended) return 'skipped'
 
-      const username = iaaaUser.username
-      const password = this.crypto.decrypt(iaaaUser.password)
+      // 若用户配置了对新通知、日程 DDL 和成绩都不需要提醒，就跳过这个用户
+      const bbConfig = await getOrCreateBBConfig(this.ctx, userId)
+      if (!bbConfig.notifyNotice && !bbConfig.notifyAssignment && !bbConfig.notifyGrade) return 'skipped'
 
-      const client = new BlackboardClient(username, password, this.logger)
-      await client.login()
+      const client = this.createClient(iaaaUser)
 
       // 创建一个模拟 session 来发送消息
-      const mockSession = {
-        userId,
-        send: async (message: string) => {
-          // 通过 bot 发送私信
-          const bots = this.ctx.bots
-          for (const bot of bots.values()) {
-            try {
-              await bot.sendPrivateMessage(userId, message)
-              break
-            } catch (e) {
-              this.logger.error(`发送消息失败 (bot: ${bot.platform})：`, e)
-            }
-          }
-        }
-      }
+      const mockSession = this.createMockSession(userId, bbConfig)
 
-      if (bbConfig.notifyNotice) {
-        // 用模拟 session 创建通知处理器实例，如果有新通知就可以向用户发送提醒消息
-        const noticeHandler = new NoticeHandler(this.ctx, userId, bbConfig, client, mockSession as any)
-        await noticeHandler.process()
+      let success: boolean
+      try {
+        success = await this.runHandlers(userId, bbConfig, client, mockSession)
+      } catch (error) {
+        if (!(error instanceof AuthError)) throw error
+        await this.handleAuthFailure(iaaaUser, error, mockSession)
+        return 'failure'
       }
 
-      if (bbConfig.notifyAssignment) {
-        // 用模拟 session 创建日程处理器实例，如果有未完成的日程 DDL 就可以向用户发送提醒消息
-        const calendarHandler = new CalendarHandler(this.ctx, userId, bbConfig, client, mockSession as any)
-        await calendarHandler.process()
+      // 登录成功（或会话仍然有效），清除之前的登录失败记录
+      if (iaaaUser.authFailures > 0 && client.hasSession()) {
+        await clearAuthFailures(this.ctx, userId)
       }
 
-      this.logger.error(`成功为用户 ${userId} 查询新通知和日程 DDL`)
+      await saveBlackboardSession(this.ctx, userId, client, this.crypto)
+
+      this.logger.debug(`为用户 ${userId} 查询新通知和日程 DDL ${success ? '成功' : '时部分失败'}`)
+      return success ? 'success' : 'failure'
 
     } catch (error) {
       this.logger.error(`查询用户 ${userId} 的新通知和日程 DDL 时发生错误：${error}`)
+      return 'failure'
+    }
+  }
+
+  /**
+   * 依次运行通知处理器和日程处理器，返回是否全部处理成功
+   */
+  private async runHandlers(userId: string, bbConfig: BlackboardWatcherConfig, client: BlackboardClient, mockSession: ReturnType<ScheduleService['createMockSession']>): Promise<boolean> {
+    let success = true
+    // 查询通知时得到的课程列表，成绩处理器直接使用，不再重复获取通知数据
+    let courses: CourseInfo[] | null = null
+
+    if (bbConfig.notifyNotice) {
+      // 用模拟 session 创建通知处理器实例，如果有新通知就可以向用户发送提醒消息；免打扰时段内的附件暂存，时段结束后再发送
+      const deferAttachments = isInQuietHours(bbConfig.quietHoursStart, bbConfig.quietHoursEnd)
+      const noticeHandler = new NoticeHandler(this.ctx, userId, bbConfig, client, mockSession as any, deferAttachments)
+      success = await noticeHandler.process() && success
+      courses = noticeHandler.courses
+    }
+
+    if (bbConfig.notifyAssignment) {
+      // 用模拟 session 创建日程处理器实例，如果有未完成的日程 DDL 就可以向用户发送提醒消息
+      const checkInterval = getUserCheckInterval(this.config, bbConfig) || this.config.checkInterval
+      const calendarHandler = new CalendarHandler(this.ctx, userId, bbConfig, client, mockSession as any, checkInterval)
+      success = await calendarHandler.process() && success
     }
+
+    if (bbConfig.notifyGrade) {
+      // 用模拟 session 创建成绩处理器实例，如果有新公布或有变化的成绩就可以向用户发送提醒消息
+      const gradeHandler = new GradeHandler(this.ctx, userId, bbConfig, client, mockSession as any, courses)
+      success = await gradeHandler.process() && success
+    }
+
+    return success
   }
 
   /**
-   * 为所有用户查询新通知和日程 DDL
+   * 记录一次登录失败：第一次失败时提醒用户重新绑定，连续失败次数达到阈值时暂停自动查询
    */
-  async checkAllUsers(): Promise<void> {
+  private async handleAuthFailure(iaaaUser: IAAAUser, error: AuthError, mockSession: ReturnType<ScheduleService['createMockSession']>): Promise<void> {
+    const threshold = this.config.authFailureThreshold
+    const updated = await recordAuthFailure(this.ctx, iaaaUser, error.message, threshold)
+    this.logger.warn(`用户 ${iaaaUser.userId} 的 IAAA 账号连续第 ${updated.authFailures} 次登录失败：${error.message}`)
+
+    // 只在第一次失败时提醒，避免每次定时查询都重复发送
+    if (updated.authFailures === 1) {
+      const consequence = updated.suspended
+        ? '已暂停为您自动查询，重新绑定后恢复'
+        : `否则连续登录失败 ${threshold} 次后将暂停为您自动查询`
+      await mockSession.send(`您的 IAAA 账号登录失败（${error.message}），可能是修改过密码。请使用 iaaa.bind 重新绑定，${consequence}`)
+    }
+    if (updated.suspended && !iaaaUser.suspended) {
+      this.logger.warn(`已暂停为用户 ${iaaaUser.userId} 自动查询，重新绑定后恢复`)
+    }
+  }
+
+  /**
+   * 按用户的检查间隔安排下一次检查，并加入随机延迟，避免所有用户集中在同一时刻检查
+   * 按 cron 表达式检查且用户没有自行设置间隔时，下一个 cron 时刻就会再次检查，不加入随机延迟
+   */
+  private async scheduleNextCheck(userId: string): Promise<void> {
+    const bbConfig = await getOrCreateBBConfig(this.ctx, userId)
+    const interval = getUserCheckInterval(this.config, bbConfig)
+    const jitter = interval > 0 ? Math.random() * this.config.checkJitter * 60000 : 0
+    await updateNextCheckAt(this.ctx, userId, new Date(Date.now() + interval * 60000 + jitter))
+  }
+
+  /**
+   * 为已到下一次检查时间的用户查询新通知和日程 DDL，最多同时为 concurrency 个用户查询，查询后安排各自的下一次检查，返回本轮的统计结果
+   * 上一轮查询还没有结束时跳过本轮，返回 null
+   */
+  async checkDueUsers(): Promise<CheckSummary | null> {
+    if (this.running) {
+      this.logger.warn('上一轮定时查询还没有结束，跳过本轮查询')
+      return null
+    }
+    this.running = true
+
+    const startTime = Date.now()
+    const summary: CheckSummary = { success: 0, failure: 0, skipped: 0, duration: 0 }
+    let userIds: string[] = []
+
     try {
-      this.logger.info('开始定时为所有用户查询新通知和日程 DDL...')
+      // 获取所有绑定了 IAAA 登录信息的用户，挑出已到检查时间（或还没有安排过检查）的用户，跳过迁移时隔离的旧数据
+      userIds = (await this.ctx.database.get('iaaa_user', {}))
+        .filter(iaaaUser => !isQuarantinedUserId(iaaaUser.userId))
+        .filter(iaaaUser => !iaaaUser.nextCheckAt || iaaaUser.nextCheckAt.getTime() <= startTime)
+        .map(iaaaUser => iaaaUser.userId)
 
-      // 获取所有绑定了 IAAA 登录信息的用户
-      const iaaaUsers = await this.ctx.database.get('iaaa_user', {})
+      if (userIds.length > 0) {
+        this.logger.info(`开始为 ${userIds.length} 个用户查询新通知和日程 DDL...`)
+      }
 
-      for (const iaaaUser of iaaaUsers) {
-        await this.checkSingleUser(iaaaUser.userId)
-        await delay(1000) // 模拟睡眠 1 秒，避免请求过于频繁
+      // 每个 worker 依次从队列中取出下一个用户进行查询，请求速率由共享的 rateLimiter 控制
+      let next = 0
+      const worker = async () => {
+        while (next < userIds.length) {
+          const userId = userIds[next++]
+          const result = await this.checkSingleUser(userId)
+          summary[result]++
+          await this.scheduleNextCheck(userId)
+        }
       }
+      const workerCount = Math.min(this.config.concurrency, userIds.length)
+      await Promise.all(Array.from({ length: workerCount }, worker))
 
-      this.logger.info(`定时查询完成，共查询了 ${iaaaUsers.length} 个用户`)
     } catch (error) {
       this.logger.error('定时查询过程中发生错误：', error)
+    } finally {
+      this.running = false
+    }
+
+    summary.duration = Date.now() - startTime
+    if (userIds.length > 0) {
+      this.logger.info(`定时查询完成，用时 ${(summary.duration / 1000).toFixed(1)} 秒，成功 ${summary.success} 个用户，失败 ${summary.failure} 个，跳过 ${summary.skipped} 个`)
+    }
+    return summary
+  }
+
+  /**
+   * 为所有处于汇总发送模式、且已到发送时间的用户发送摘要
+   */
+  async flushDigests(): Promise<void> {
+    try {
+      // 按用户对暂存的条目进行分组
+      const userItems = new Map<string, DigestItem[]>()
+      for (const item of await getAllDigestItems(this.ctx)) {
+        if (!userItems.has(item.userId)) userItems.set(item.userId, [])
+        userItems.get(item.userId).push(item)
+      }
+
+      for (const [userId, items] of userItems) {
+        const bbConfig = await getOrCreateBBConfig(this.ctx, userId)
+        const digestHandler = new DigestHandler(this.ctx, userId, bbConfig, items, this.createMockSession(userId, bbConfig) as any)
+        await digestHandler.process()
+      }
+    } catch (error) {
+      this.logger.error('发送摘要过程中发生错误：', error)
+    }
+  }
+
+  /**
+   * 为所有已离开免打扰时段的用户发送暂存的消息
+   */
+  async flushOutbox(): Promise<void> {
+    try {
+      // 按用户对暂存的消息进行分组
+      const userMessages = new Map<string, OutboxMessage[]>()
+      for (const message of await getAllOutboxMessages(this.ctx)) {
+        if (!userMessages.has(message.userId)) userMessages.set(message.userId, [])
+        userMessages.get(message.userId).push(message)
+      }
+
+      for (const [userId, messages] of userMessages) {
+        const bbConfig = await getOrCreateBBConfig(this.ctx, userId)
+        if (isInQuietHours(bbConfig.quietHoursStart, bbConfig.quietHoursEnd)) continue
+
+        let client: BlackboardClient | null = null
+        const iaaaUser = await getIAAAUser(this.ctx, userId)
+        const send = (message: h.Fragment) => this.sendPrivateMessage(userId, bbConfig, message)
+        for (const message of messages) {
+          if (message.content) await send(message.content)
+
+          // 暂存的附件在这时下载，已经解绑 IAAA 账号时只发送提示
+          const attachments: Attachment[] = parseJSON(message.attachments, [])
+          if (attachments.length === 0) continue
+          if (!iaaaUser) {
+            for (const attachment of attachments) {
+              await send(`附件 ${attachment.name} 没有转发：您已解绑 IAAA 账号`)
+            }
+            continue
+          }
+          client = client || this.createClient(iaaaUser)
+          await sendAttachments(client, bbConfig, attachments, send)
+        }
+        await removeOutboxMessages(this.ctx, messages.map(message => message.id))
+        if (client) await saveBlackboardSession(this.ctx, userId, client, this.crypto)
+      }
+    } catch (error) {
+      this.logger.error('发送暂存消息过程中发生错误：', error)
     }
   }
 
@@ -104,15 +341,36 @@ export class ScheduleService {
    * 启动定时任务
    */
   startSchedule(): void {
-    // 每隔 checkInterval 分钟执行一次
-    const cronExpression = `*/${this.config.checkInterval} * * * *`
+    // 按 cron 表达式指定的时刻检查，未设置时每分钟检查一次有哪些用户到了检查时间
+    const cronExpression = this.config.checkCron || '* * * * *'
 
     try {
-      this.disposeTask = (this.ctx as any).cron(cronExpression, () => {
-        this.checkAllUsers()
+      this.disposeTask = (this.ctx as any).cron(cronExpression, async () => {
+        // 活跃时段以外不检查，到期的用户会在下一个活跃时段开始时检查
+        if (!isInActiveHours(this.config.activeHoursStart, this.config.activeHoursEnd)) return
+        await this.checkDueUsers()
       })
+    } catch (error) {
+      // cron 服务无法解析表达式时指出是哪一项配置有误，插件启动失败
+      this.logger.error(`定时查询的 cron 表达式 ${cronExpression} 无效，请修改插件配置中的 checkCron：${error.message}`)
+      throw error
+    }
 
-      this.logger.info(`定时任务已启动，每 ${this.config.checkInterval} 分钟为所有用户查询一次新通知和日程 DDL`)
+    try {
+      // 每分钟检查一次是否有需要发送的摘要，以及免打扰时段结束后需要补发的消息
+      this.disposeDeliveryTask = (this.ctx as any).cron('* * * * *', async () => {
+        await this.flushDigests()
+        await this.flushOutbox()
+      })
+
+      const activeHours = this.config.activeHoursStart && this.config.activeHoursEnd
+        ? `，只在每天 ${this.config.activeHoursStart} - ${this.config.activeHoursEnd} 之间检查`
+        : ''
+      if (this.config.checkCron) {
+        this.logger.info(`定时任务已启动，按 cron 表达式 ${this.config.checkCron} 检查到期的用户${activeHours}`)
+      } else {
+        this.logger.info(`定时任务已启动，默认每 ${this.config.checkInterval} 分钟为每个用户查询一次新通知和日程 DDL${activeHours}`)
+      }
     } catch (error) {
       this.logger.error('启动定时任务时发生错误：', error)
       throw error  // 如果定时任务启动失败，插件应该启动失败
@@ -128,5 +386,9 @@ export class ScheduleService {
       this.disposeTask = undefined
       this.logger.info('定时任务已停止')
     }
+    if (this.disposeDeliveryTask) {
+      this.disposeDeliveryTask()
+      this.disposeDeliveryTask = undefined
+    }
   }
 }
@@ -0,0 +1,32 @@
+import { Context } from 'koishi'
+import { IAAAUser, BlackboardClientOptions } from '../types'
+import { CryptoUtils } from '../utils'
+import { BlackboardClient } from './blackboard'
+import { updateIAAASession } from '../database'
+
+/**
+ * 为已绑定 IAAA 账号的用户创建教学网客户端，并恢复数据库中保存的会话
+ * 会话过期或不存在时，客户端会在第一次请求时自动通过 IAAA 登录
+ */
+export function createBlackboardClient(iaaaUser: IAAAUser, crypto: CryptoUtils, logger?: any, options: BlackboardClientOptions = {}): BlackboardClient {
+  const client = new BlackboardClient(iaaaUser.username, crypto.decrypt(iaaaUser.password), logger, options)
+
+  if (iaaaUser.sessionCookies) {
+    try {
+      client.importCookies(crypto.decrypt(iaaaUser.sessionCookies))
+    } catch (e) {
+      // 会话无法解密（如更换了加密密钥）时忽略，之后重新登录即可
+      logger?.warn(`恢复用户 ${iaaaUser.userId} 的教学网会话失败：${e.message}`)
+    }
+  }
+
+  return client
+}
+
+/**
+ * 加密保存客户端当前的会话 cookies，供下一次查询复用
+ */
+export async function saveBlackboardSession(ctx: Context, userId: string, client: BlackboardClient, crypto: CryptoUtils): Promise<void> {
+  if (!client.hasSession()) return
+  await updateIAAASession(ctx, userId, crypto.encrypt(client.exportCookies()))
+}
@@ -0,0 +1,47 @@
+import { Context, h } from 'koishi'
+import { Subscription, SubscriptionItem } from '../types'
+import { parseEventRules, matchEventRules } from './event_types'
+import { findCourseValue } from './course_identity'
+
+/**
+ * 判断提醒条目是否符合群聊订阅的过滤条件，个人事件不会转发到群聊
+ */
+export function matchesSubscription(subscription: Subscription, item: SubscriptionItem, aliases: Record<string, string>): boolean {
+  if (item.type === 'notice' || item.type === 'grade') {
+    if (!matchEventRules(parseEventRules(subscription.noticeEvents) || [], item.event)) return false
+  } else {
+    if (!subscription.notifyAssignment || item.course === '个人') return false
+  }
+
+  // 按课程名或别名中的关键词过滤
+  const keywords = subscription.courses.split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean)
+  if (keywords.length === 0) return true
+
+  const course = item.course.toLowerCase()
+  const alias = (findCourseValue(aliases, item.course, item.courseId) || '').toLowerCase()
+  return keywords.some(keyword => course.includes(keyword) || alias.includes(keyword))
+}
+
+/**
+ * 把一条提醒消息发送到所有符合过滤条件的群聊
+ */
+export async function sendToSubscriptions(ctx: Context, subscriptions: Subscription[], item: SubscriptionItem, aliases: Record<string, string>, message: h.Fragment): Promise<void> {
+  const logger = ctx.logger('pku-blackboard-watcher')
+
+  for (const subscription of subscriptions) {
+    if (!matchesSubscription(subscription, item, aliases)) continue
+
+    // 优先使用用户注册订阅时所在的机器人账号
+    const bot = ctx.bots.find(bot => bot.platform === subscription.platform && (!subscription.selfId || bot.selfId === subscription.selfId))
+    if (!bot) {
+      logger.warn(`找不到平台 ${subscription.platform} 上的机器人，无法向群聊 ${subscription.channelId} 发送提醒`)
+      continue
+    }
+
+    try {
+      await bot.sendMessage(subscription.channelId, message, subscription.guildId || undefined)
+    } catch (e) {
+      logger.error(`向群聊 ${subscription.channelId} 发送提醒失败：`, e)
+    }
+  }
+}
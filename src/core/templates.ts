@@ -0,0 +1,287 @@
+import { h } from 'koishi'
+import { BlackboardWatcherConfig, NoticeRecord, AssignmentRecord } from '../types'
+import { getCourseAlias } from './course_identity'
+import { getEventLabel } from './event_types'
+import { truncateElements } from './html_render'
+import { parseJSON, formatRemaining } from '../utils'
+
+// 提醒消息中通知内容的最大长度，超出的部分请用户使用 bb.notices 查看
+const MAX_CONTENT_LENGTH = 800
+
+// 模板的最大长度
+const MAX_TEMPLATE_LENGTH = 500
+
+export type TemplateType = 'notice' | 'assignment' | 'init'
+
+// 占位符的值，通知内容为渲染后的消息元素
+export type TemplateValues = Record<string, string | h[]>
+
+// 模板中的一段：文本、占位符，或按占位符是否为空决定是否显示的条件段落
+type TemplateNode =
+  | { type: 'text', text: string }
+  | { type: 'field', name: string }
+  | { type: 'section', name: string, negated: boolean, children: TemplateNode[] }
+
+/**
+ * 模板语法错误，错误信息会直接显示给用户
+ */
+class TemplateError extends Error {}
+
+// 各类模板的名称、保存模板的配置项、可用的占位符与默认模板
+export const templateTypes: Record<TemplateType, { name: string, key: 'noticeTemplate' | 'assignmentTemplate' | 'initTemplate', fields: Record<string, string>, default: string }> = {
+  'notice': {
+    name: '通知提醒',
+    key: 'noticeTemplate',
+    fields: {
+      'prefix': '提醒消息前缀',
+      'course': '课程名',
+      'alias': '课程别名（没有设置时为课程名）',
+      'title': '通知标题',
+      'content': '通知内容（过长时截断）',
+      'time': '发布时间',
+      'event': '通知类型'
+    },
+    default: '{prefix} {alias}{?alias}：{/alias}{title}{?content}\\n{content}{/content}\\n发布时间：{time}'
+  },
+  'assignment': {
+    name: 'DDL 提醒',
+    key: 'assignmentTemplate',
+    fields: {
+      'prefix': '提醒消息前缀',
+      'course': '课程名（个人事件为空）',
+      'alias': '课程别名（没有设置时为课程名）',
+      'title': '日程标题',
+      'content': '作业要求',
+      'due': '截止时间',
+      'remaining': '剩余时间'
+    },
+    default: '{prefix} {alias}{?alias}：{/alias}{title}{?content}\\n{content}{/content}\\n截止时间：{due}\\n剩余时间：{remaining}'
+  },
+  'init': {
+    name: '初始化消息',
+    key: 'initTemplate',
+    fields: {
+      'module': '模块名称（通知提醒、日程提醒或成绩提醒）',
+      'count': '同步的已有记录数',
+      'content': '默认的初始化消息'
+    },
+    default: '{content}'
+  }
+}
+
+// 指令中可以使用的模板类型名称
+const typeNames: Record<string, TemplateType> = {
+  'notice': 'notice',
+  '通知': 'notice',
+  'assignment': 'assignment',
+  'deadline': 'assignment',
+  'ddl': 'assignment',
+  '日程': 'assignment',
+  'init': 'init',
+  '初始化': 'init'
+}
+
+// 各模块首次运行时的名称与默认消息
+const initMessages = {
+  'notice': { name: '通知提醒', message: (count: number) => `通知提醒模块首次运行成功！\n初始化已完成，从教学网同步了 ${count} 条已有通知。之后就可以自动检测新的通知并提醒您了~` },
+  'assignment': { name: '日程提醒', message: () => `日程提醒模块首次运行成功！\n之后就可以自动在作业、事件截止前提醒您了~` },
+  'grade': { name: '成绩提醒', message: (count: number) => `成绩提醒模块首次运行成功！\n初始化已完成，从教学网同步了 ${count} 项已有成绩。之后就可以在成绩公布或更新时提醒您了~` }
+}
+
+// 模板语法的说明
+export const templateSyntax = '模板语法：{占位符} 替换为对应的内容；{?占位符}…{/占位符} 只在该内容不为空时显示，{!占位符}…{/占位符} 只在为空时显示；\\n 表示换行，{{ 与 }} 表示花括号本身'
+
+/**
+ * 解析指令中的模板类型名称，无法识别时返回 undefined
+ */
+export function parseTemplateType(name: string): TemplateType | undefined {
+  return typeNames[name?.trim().toLowerCase()]
+}
+
+/**
+ * 列出某类模板可用的占位符及其含义
+ */
+export function describeTemplateFields(type: TemplateType): string {
+  return Object.entries(templateTypes[type].fields).map(([name, description]) => `{${name}}：${description}`).join('\n')
+}
+
+/**
+ * 把模板解析为若干段，语法错误时抛出 TemplateError
+ */
+function parseTemplate(template: string, type: TemplateType): TemplateNode[] {
+  const { name: typeName, fields } = templateTypes[type]
+  const root: TemplateNode[] = []
+  const sections: Extract<TemplateNode, { type: 'section' }>[] = []
+  let current = root
+
+  // 追加文本，与前一段文本合并
+  const pushText = (text: string) => {
+    const last = current[current.length - 1]
+    if (last?.type === 'text') {
+      last.text += text
+    } else {
+      current.push({ type: 'text', text })
+    }
+  }
+
+  let index = 0
+  for (const match of template.matchAll(/\{\{|\}\}|\\n|\{([?!/]?)([^{}]*)\}|[{}]/g)) {
+    if (match.index > index) pushText(template.slice(index, match.index))
+    index = match.index + match[0].length
+
+    const token = match[0]
+    if (token === '{{' || token === '}}') {
+      pushText(token[0])
+    } else if (token === '\\n') {
+      pushText('\n')
+    } else if (token === '{' || token === '}') {
+      throw new TemplateError(`第 ${match.index + 1} 个字符处的 ${token} 没有配对，如需显示花括号请写成 {{ 或 }}`)
+    } else {
+      const mark = match[1]
+      const name = match[2].trim()
+      if (mark === '/') {
+        const section = sections.pop()
+        if (!section) {
+          throw new TemplateError(`${token} 前面没有对应的 {?${name}} 或 {!${name}}`)
+        }
+        if (section.name !== name) {
+          throw new TemplateError(`条件段落 {${section.negated ? '!' : '?'}${section.name}} 需要以 {/${section.name}} 结束，而不是 ${token}`)
+        }
+        current = sections.length > 0 ? sections[sections.length - 1].children : root
+        continue
+      }
+
+      if (!(name in fields)) {
+        throw new TemplateError(`未知的占位符 ${token}，${typeName}模板可用的占位符有：${Object.keys(fields).map(field => `{${field}}`).join(' ')}`)
+      }
+      if (mark) {
+        const section = { type: 'section' as const, name, negated: mark === '!', children: [] }
+        current.push(section)
+        sections.push(section)
+        current = section.children
+      } else {
+        current.push({ type: 'field', name })
+      }
+    }
+  }
+  if (index < template.length) pushText(template.slice(index))
+
+  if (sections.length > 0) {
+    const section = sections[sections.length - 1]
+    throw new TemplateError(`条件段落 {${section.negated ? '!' : '?'}${section.name}} 没有对应的 {/${section.name}}`)
+  }
+  return root
+}
+
+/**
+ * 校验用户设置的模板，有错误时返回错误信息，有效时返回 null
+ */
+export function validateTemplate(type: TemplateType, template: string): string | null {
+  if (!template?.trim()) return '模板不能为空'
+  if (template.length > MAX_TEMPLATE_LENGTH) return `模板不能超过 ${MAX_TEMPLATE_LENGTH} 个字符`
+  try {
+    parseTemplate(template, type)
+    return null
+  } catch (e) {
+    if (e instanceof TemplateError) return e.message
+    throw e
+  }
+}
+
+/**
+ * 按顺序把各段的内容加入消息，条件段落按占位符的值是否为空决定是否显示
+ */
+function renderNodes(nodes: TemplateNode[], values: TemplateValues, parts: (string | h)[]) {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      parts.push(node.text)
+    } else if (node.type === 'field') {
+      const value = values[node.name] ?? ''
+      parts.push(...(typeof value === 'string' ? [value] : value))
+    } else {
+      const isEmpty = !values[node.name]?.length
+      if (isEmpty === node.negated) renderNodes(node.children, values, parts)
+    }
+  }
+}
+
+/**
+ * 用占位符的值渲染模板，用户没有设置模板时使用默认模板
+ */
+export function renderTemplate(type: TemplateType, template: string, values: TemplateValues): h[] {
+  let nodes: TemplateNode[]
+  try {
+    nodes = parseTemplate(template || templateTypes[type].default, type)
+  } catch (e) {
+    // 保存的模板已经无效（如旧版本的占位符）时退回默认模板，不影响提醒
+    nodes = parseTemplate(templateTypes[type].default, type)
+  }
+
+  const parts: (string | h)[] = []
+  renderNodes(nodes, values, parts)
+
+  // 合并相邻的文本
+  const elements: h[] = []
+  let text = ''
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      text += part
+      continue
+    }
+    if (part.type === 'text') {
+      text += part.attrs.content
+      continue
+    }
+    if (text) elements.push(h.text(text))
+    text = ''
+    elements.push(part)
+  }
+  if (text) elements.push(h.text(text))
+  return elements
+}
+
+/**
+ * 由通知记录得到通知提醒模板的占位符的值，body 为渲染后的通知内容，没有时使用记录中的纯文本内容
+ */
+export function getNoticeValues(config: BlackboardWatcherConfig, record: Pick<NoticeRecord, 'course' | 'courseId' | 'title' | 'content' | 'time' | 'event'>, body?: h[]): TemplateValues {
+  const aliases = parseJSON(config.courseAliases, {})
+  const content = body || (record.content ? [h.text(record.content)] : [])
+  return {
+    prefix: config.noticeTitlePrefix,
+    course: record.course,
+    alias: getCourseAlias(aliases, record.course, record.courseId),
+    title: record.title,
+    content: truncateElements(content, MAX_CONTENT_LENGTH, '内容较长，完整内容请使用 bb.notices 查看'),
+    time: record.time,
+    event: getEventLabel(record.event)
+  }
+}
+
+/**
+ * 由日程记录得到 DDL 提醒模板的占位符的值，个人事件没有课程
+ */
+export function getAssignmentValues(config: BlackboardWatcherConfig, record: Pick<AssignmentRecord, 'course' | 'title' | 'description' | 'time' | 'endDate'>): TemplateValues {
+  const isPersonal = record.course === '个人'
+  const aliases = parseJSON(config.courseAliases, {})
+  return {
+    prefix: config.assignmentTitlePrefix,
+    course: isPersonal ? '' : record.course,
+    alias: isPersonal ? '' : getCourseAlias(aliases, record.course),
+    title: record.title,
+    content: record.description,
+    due: record.time,
+    remaining: formatRemaining(record.endDate)
+  }
+}
+
+/**
+ * 得到初始化消息模板的占位符的值，count 为首次运行时同步的已有记录数
+ */
+export function getInitValues(module: keyof typeof initMessages, count: number): TemplateValues {
+  const { name, message } = initMessages[module]
+  return {
+    module: name,
+    count: String(count),
+    content: message(count)
+  }
+}
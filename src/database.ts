@@ -1,5 +1,20 @@
 import { Context } from 'koishi'
-import { IAAAUser, BlackboardWatcherConfig, NoticeRecord, AssignmentRecord } from './types'
+import { IAAAUser, BlackboardWatcherConfig, NoticeRecord, AssignmentRecord, GradeRecord, DigestItem, OutboxMessage, Subscription, NoticeRule, Attachment } from './types'
+import { isLegacyEvents, convertLegacyEvents } from './core/event_types'
+import { parseJSON, parseLocalTime, getReminderStages } from './utils'
+
+// 以用户 ID 区分数据的表
+const userTables = ['iaaa_user', 'bb_watcher_config', 'notice_record', 'assignment_record', 'digest_item', 'outbox_message', 'bb_subscription'] as const
+
+// 迁移时无法确定所属用户的旧数据改用带这个前缀的 ID 隔离保存，不会与统一用户 ID 冲突
+const QUARANTINE_PREFIX = 'legacy:'
+
+/**
+ * 判断用户 ID 是否为迁移时隔离的旧数据，这类数据不参与定时查询，也不发送消息
+ */
+export function isQuarantinedUserId(userId: string): boolean {
+  return userId.startsWith(QUARANTINE_PREFIX)
+}
 
 /**
  * 初始化数据库模型
@@ -13,10 +28,22 @@ export function initializeDatabase(ctx: Context) {
     // IAAA 认证信息
     username: { type: 'string', nullable: false },
     password: { type: 'string', nullable: false },
+    sessionCookies: { type: 'text', initial: '' },
+
+    // 账号健康状态
+    authFailures: { type: 'unsigned', initial: 0 },
+    lastAuthError: { type: 'string', initial: '' },
+    lastAuthFailureAt: { type: 'timestamp', nullable: true },
+    suspended: { type: 'boolean', initial: false },
+
+    // 定时检查安排
+    nextCheckAt: { type: 'timestamp', nullable: true },
 
     createdAt: { type: 'timestamp', nullable: false },
     updatedAt: { type: 'timestamp', nullable: false }
   }, {
+    primary: 'id',
+    autoInc: true,
     // 确保每个用户只有一条记录
     unique: ['userId']
   })
@@ -28,21 +55,44 @@ export function initializeDatabase(ctx: Context) {
 
     // 通用配置，为课程指定的别名
     courseAliases: { type: 'string', initial: '{}' },
+    deliveryMode: { type: 'string', initial: 'immediate' },
+    digestTime: { type: 'string', initial: '21:00' },
+    quietHoursStart: { type: 'string', initial: '' },
+    quietHoursEnd: { type: 'string', initial: '' },
+    icsToken: { type: 'string', initial: '' },
+    checkInterval: { type: 'unsigned', initial: 0 },
+    notifyPrivate: { type: 'boolean', initial: true },
+    deliveryPlatform: { type: 'string', initial: '' },
+    deliverySelfId: { type: 'string', initial: '' },
+    deliveryUserId: { type: 'string', initial: '' },
+    deliveryChannelId: { type: 'string', initial: '' },
+    courseList: { type: 'text', initial: '[]' },
+    initTemplate: { type: 'text', initial: '' },
 
     // 通知提醒配置
     notifyNotice: { type: 'boolean', initial: true },
     noticeTitlePrefix: { type: 'string', initial: '[教学网]' },
-    generalAllowedEvents: { type: 'string', initial: '123' },
+    generalAllowedEvents: { type: 'string', initial: '*' },
     specificCourseEvents: { type: 'string', initial: '{}' },
+    attachmentCourses: { type: 'text', initial: '{}' },
+    attachmentMaxSize: { type: 'integer', initial: 5 },
+    noticeTemplate: { type: 'text', initial: '' },
 
     // 日程提醒配置
     notifyAssignment: { type: 'boolean', initial: true },
     calendarAdvanceHours: { type: 'integer', initial: 24 },
+    calendarReminderStages: { type: 'string', initial: '' },
     assignmentTitlePrefix: { type: 'string', initial: '[DDL!]' },
+    assignmentTemplate: { type: 'text', initial: '' },
+
+    // 成绩提醒配置
+    notifyGrade: { type: 'boolean', initial: false },
 
     createdAt: { type: 'timestamp', nullable: false },
     updatedAt: { type: 'timestamp', nullable: false }
   }, {
+    primary: 'id',
+    autoInc: true,
     // 确保每个用户只有一条记录
     unique: ['userId']
   })
@@ -56,10 +106,12 @@ export function initializeDatabase(ctx: Context) {
     noticeId: { type: 'string', nullable: false },
     time: { type: 'string', nullable: false },
     course: { type: 'string', nullable: false },
+    courseId: { type: 'string', initial: '' },
     title: { type: 'string', nullable: false },
     content: { type: 'text', nullable: false },
     event: { type: 'string', nullable: false },
     shouldNotify: { type: 'boolean', nullable: false },
+    trace: { type: 'text', initial: '' },
 
     createdAt: { type: 'timestamp', nullable: false },
     updatedAt: { type: 'timestamp', nullable: false }
@@ -76,10 +128,13 @@ export function initializeDatabase(ctx: Context) {
     // 要记录的日程信息
     assignmentId: { type: 'string', nullable: false },
     time: { type: 'string', nullable: false },
+    endDate: { type: 'string', initial: '' },
     course: { type: 'string', nullable: false },
     title: { type: 'string', nullable: false },
     description: { type: 'text', nullable: false },
+    rawDescription: { type: 'text', initial: '' },
     shouldNotify: { type: 'boolean', nullable: false },
+    notifiedStages: { type: 'string', initial: '' },
 
     createdAt: { type: 'timestamp', nullable: false },
     updatedAt: { type: 'timestamp', nullable: false }
@@ -87,6 +142,291 @@ export function initializeDatabase(ctx: Context) {
     primary: 'id',
     autoInc: true,
   })
+
+  // 创建成绩记录表（记录已处理的成绩，用于发现新公布或有变化的成绩）
+  ctx.model.extend('grade_record', {
+    id: 'unsigned',
+    userId: { type: 'string', nullable: false },
+
+    // 要记录的成绩信息
+    courseId: { type: 'string', nullable: false },
+    course: { type: 'string', nullable: false },
+    itemId: { type: 'string', nullable: false },
+    name: { type: 'string', nullable: false },
+    score: { type: 'string', nullable: false },
+    pointsPossible: { type: 'string', initial: '' },
+    feedback: { type: 'text', initial: '' },
+
+    createdAt: { type: 'timestamp', nullable: false },
+    updatedAt: { type: 'timestamp', nullable: false }
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 创建摘要待发送条目表（汇总发送模式下暂存的提醒，重启后不会丢失）
+  ctx.model.extend('digest_item', {
+    id: 'unsigned',
+    userId: { type: 'string', nullable: false },
+
+    // 要暂存的提醒信息
+    type: { type: 'string', nullable: false },
+    itemId: { type: 'string', nullable: false },
+    course: { type: 'string', nullable: false },
+    title: { type: 'string', nullable: false },
+    content: { type: 'text', nullable: false },
+    time: { type: 'string', nullable: false },
+    endDate: { type: 'string', initial: '' },
+    attachments: { type: 'text', initial: '[]' },
+
+    createdAt: { type: 'timestamp', nullable: false }
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 创建待发送消息表（免打扰时段内暂存的消息，重启后不会丢失）
+  ctx.model.extend('outbox_message', {
+    id: 'unsigned',
+    userId: { type: 'string', nullable: false },
+
+    content: { type: 'text', nullable: false },
+    attachments: { type: 'text', initial: '[]' },
+
+    createdAt: { type: 'timestamp', nullable: false }
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 创建群聊订阅表
+  ctx.model.extend('bb_subscription', {
+    id: 'unsigned',
+    userId: { type: 'string', nullable: false },
+
+    // 订阅的群聊
+    platform: { type: 'string', nullable: false },
+    selfId: { type: 'string', initial: '' },
+    channelId: { type: 'string', nullable: false },
+    guildId: { type: 'string', initial: '' },
+
+    // 过滤条件
+    noticeEvents: { type: 'string', initial: 'AS:*' },
+    courses: { type: 'string', initial: '' },
+    notifyAssignment: { type: 'boolean', initial: false },
+
+    createdAt: { type: 'timestamp', nullable: false }
+  }, {
+    primary: 'id',
+    autoInc: true,
+    // 每个用户在每个群聊中只有一个订阅
+    unique: [['userId', 'platform', 'channelId']]
+  })
+
+  // 创建通知过滤规则表
+  ctx.model.extend('bb_notice_rule', {
+    id: 'unsigned',
+    userId: { type: 'string', nullable: false },
+
+    // 规则内容
+    priority: { type: 'integer', initial: 0 },
+    action: { type: 'string', nullable: false },
+    field: { type: 'string', initial: 'all' },
+    pattern: { type: 'string', nullable: false },
+    isRegex: { type: 'boolean', initial: false },
+
+    createdAt: { type: 'timestamp', nullable: false }
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 创建数据迁移记录表
+  ctx.model.extend('bb_migration', {
+    name: { type: 'string', nullable: false },
+    appliedAt: { type: 'timestamp', nullable: false }
+  }, {
+    primary: 'name'
+  })
+}
+
+/**
+ * 把按平台账号 ID 保存的旧数据迁移到 Koishi 的统一用户 ID 上，只会执行一次
+ * 同一用户在多个平台上分别绑定过时，保留最近更新的认证信息与配置，通知与日程记录合并去重
+ * 找不到唯一对应用户的平台账号的数据被隔离，避免按平台账号 ID 当作统一用户 ID 发送消息，发给错误的用户
+ */
+export async function migrateToUnifiedUserIds(ctx: Context): Promise<void> {
+  const name = 'unified-user-id'
+  if ((await ctx.database.get('bb_migration', { name })).length > 0) return
+
+  const logger = ctx.logger('pku-blackboard-watcher')
+  // 收集旧数据中出现过的所有平台账号 ID
+  const legacyIds = new Set<string>()
+  for (const table of userTables) {
+    for (const row of await ctx.database.get(table, {}, ['userId'])) {
+      if (!isQuarantinedUserId(row.userId)) legacyIds.add(row.userId)
+    }
+  }
+
+  // 由平台账号找到关联的统一用户，配置中记录了投递平台时以它为准，否则只在唯一匹配时迁移
+  const configs = await ctx.database.get('bb_watcher_config', {})
+  const mapping = new Map<string, string>()
+  const unmapped: string[] = []
+  for (const pid of legacyIds) {
+    const bindings = await ctx.database.get('binding', { pid })
+    const bbConfig = configs.find(bbConfig => bbConfig.userId === pid)
+    const binding = bindings.find(binding => binding.platform === bbConfig?.deliveryPlatform)
+      || (bindings.length === 1 ? bindings[0] : undefined)
+    if (!binding) {
+      logger.warn(`无法确定平台账号 ${pid} 对应的 Koishi 用户（找到 ${bindings.length} 个关联账号），已隔离其数据，不再为其查询和发送消息`)
+      unmapped.push(pid)
+      continue
+    }
+    mapping.set(pid, String(binding.aid))
+
+    // 旧配置没有记录投递路线，继续向原来的平台账号发送提醒
+    if (bbConfig && !bbConfig.deliveryPlatform) {
+      await ctx.database.set('bb_watcher_config', { userId: pid }, { deliveryPlatform: binding.platform, deliveryUserId: pid })
+    }
+  }
+
+  // 每个用户只能有一条认证信息与配置，多个平台账号合并到同一用户时保留最近更新的一条
+  for (const table of ['iaaa_user', 'bb_watcher_config'] as const) {
+    const rows = await ctx.database.get(table, { userId: [...mapping.keys()] })
+    const kept = new Map<string, typeof rows[number]>()
+    for (const row of rows.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())) {
+      const aid = mapping.get(row.userId)
+      if (kept.has(aid)) {
+        await ctx.database.remove(table, { userId: row.userId })
+      } else {
+        kept.set(aid, row)
+      }
+    }
+  }
+
+  // 同一个群聊只保留一个订阅
+  const subscriptions = await ctx.database.get('bb_subscription', { userId: [...mapping.keys()] })
+  const subscribed = new Set<string>()
+  for (const subscription of subscriptions) {
+    const key = `${mapping.get(subscription.userId)}:${subscription.platform}:${subscription.channelId}`
+    if (subscribed.has(key)) {
+      await ctx.database.remove('bb_subscription', { id: subscription.id })
+    } else {
+      subscribed.add(key)
+    }
+  }
+
+  // 先隔离无法迁移的数据，这些平台账号 ID 可能恰好与迁移后某个用户的统一 ID 相同
+  for (const pid of unmapped) {
+    for (const table of userTables) {
+      await ctx.database.set(table, { userId: pid }, { userId: QUARANTINE_PREFIX + pid })
+    }
+  }
+
+  // 先改为临时 ID 再改为最终 ID，避免旧的平台账号 ID 恰好与其他用户的统一 ID 相同时发生冲突
+  for (const [pid, aid] of mapping) {
+    for (const table of userTables) {
+      await ctx.database.set(table, { userId: pid }, { userId: `~${aid}` })
+    }
+  }
+  for (const aid of new Set(mapping.values())) {
+    for (const table of userTables) {
+      await ctx.database.set(table, { userId: `~${aid}` }, { userId: aid })
+    }
+  }
+
+  // 合并后的通知与日程记录按教学网 ID 去重，避免同一条通知重复提醒
+  for (const aid of new Set(mapping.values())) {
+    const noticeIds = new Set<string>()
+    for (const record of await getNoticeRecords(ctx, aid)) {
+      if (noticeIds.has(record.noticeId)) {
+        await ctx.database.remove('notice_record', { id: record.id })
+      } else {
+        noticeIds.add(record.noticeId)
+      }
+    }
+    const assignmentIds = new Set<string>()
+    for (const record of await getAssignmentRecords(ctx, aid)) {
+      if (assignmentIds.has(record.assignmentId)) {
+        await ctx.database.remove('assignment_record', { id: record.id })
+      } else {
+        assignmentIds.add(record.assignmentId)
+      }
+    }
+  }
+
+  await ctx.database.create('bb_migration', { name, appliedAt: new Date() })
+  if (mapping.size > 0) {
+    logger.info(`已将 ${mapping.size} 个平台账号的数据迁移到 Koishi 统一用户`)
+  }
+}
+
+/**
+ * 把旧版本数字形式的通知类型（如 "123"）转换为事件类型规则，只会执行一次
+ */
+export async function migrateEventRules(ctx: Context): Promise<void> {
+  const name = 'event-type-rules'
+  if ((await ctx.database.get('bb_migration', { name })).length > 0) return
+
+  for (const bbConfig of await ctx.database.get('bb_watcher_config', {})) {
+    const updates: Partial<BlackboardWatcherConfig> = {}
+    if (isLegacyEvents(bbConfig.generalAllowedEvents)) {
+      updates.generalAllowedEvents = convertLegacyEvents(bbConfig.generalAllowedEvents, false)
+    }
+
+    // 特定课程的配置中可能保存的是数字或字符串
+    const specificEvents = parseJSON(bbConfig.specificCourseEvents, {})
+    let changed = false
+    for (const [course, events] of Object.entries(specificEvents)) {
+      if (isLegacyEvents(String(events))) {
+        specificEvents[course] = convertLegacyEvents(String(events), true)
+        changed = true
+      }
+    }
+    if (changed) {
+      updates.specificCourseEvents = JSON.stringify(specificEvents)
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await ctx.database.set('bb_watcher_config', { userId: bbConfig.userId }, updates)
+    }
+  }
+
+  for (const subscription of await ctx.database.get('bb_subscription', {})) {
+    if (isLegacyEvents(subscription.noticeEvents)) {
+      await ctx.database.set('bb_subscription', { id: subscription.id }, { noticeEvents: convertLegacyEvents(subscription.noticeEvents, false) })
+    }
+  }
+
+  await ctx.database.create('bb_migration', { name, appliedAt: new Date() })
+}
+
+/**
+ * 为旧版本写入的日程记录补上已提醒的阶段，只会执行一次
+ * 旧版本只在日程进入提前提醒时间后才写入记录，因此把迁移时已经到达的阶段都视为已提醒，避免升级后重复提醒
+ */
+export async function migrateAssignmentStages(ctx: Context): Promise<void> {
+  const name = 'assignment-stages'
+  if ((await ctx.database.get('bb_migration', { name })).length > 0) return
+
+  const configs = new Map((await ctx.database.get('bb_watcher_config', {})).map(bbConfig => [bbConfig.userId, bbConfig]))
+  const now = Date.now()
+
+  // 旧版本的记录没有保存原始截止时间，由东八区的截止时间字符串得到截止时刻
+  for (const record of await ctx.database.get('assignment_record', { endDate: '', notifiedStages: '' })) {
+    if (record.assignmentId === '%init%') continue
+    const dueTime = parseLocalTime(record.time)
+    if (isNaN(dueTime)) continue
+
+    const bbConfig = configs.get(record.userId)
+    const stages = getReminderStages(bbConfig?.calendarAdvanceHours ?? 24, bbConfig?.calendarReminderStages ?? '')
+    const reachedStages = stages.filter(hours => dueTime - now <= hours * 3600000)
+    if (reachedStages.length > 0) {
+      await ctx.database.set('assignment_record', { id: record.id }, { notifiedStages: reachedStages.join(',') })
+    }
+  }
+
+  await ctx.database.create('bb_migration', { name, appliedAt: new Date() })
 }
 
 /**
@@ -98,7 +438,7 @@ export async function getIAAAUser(ctx: Context, userId: string): Promise<IAAAUse
 }
 
 /**
- * 创建或更新用户的 IAAA 认证信息
+ * 创建或更新用户的 IAAA 认证信息，重新绑定时清除之前的登录失败记录并恢复自动查询
  */
 export async function upsertIAAAUser(ctx: Context, userId: string, username: string, password: string): Promise<void> {
   const now = new Date()
@@ -114,6 +454,9 @@ export async function upsertIAAAUser(ctx: Context, userId: string, username: str
         userId,
         username,
         password,
+        authFailures: 0,
+        lastAuthError: '',
+        suspended: false,
         updatedAt: now
       }
     ], ['userId'])  // 索引 userId 对应记录进行更新
@@ -131,6 +474,41 @@ export async function upsertIAAAUser(ctx: Context, userId: string, username: str
   }
 }
 
+/**
+ * 保存用户加密后的教学网会话 cookies
+ */
+export async function updateIAAASession(ctx: Context, userId: string, sessionCookies: string): Promise<void> {
+  await ctx.database.set('iaaa_user', { userId }, { sessionCookies })
+}
+
+/**
+ * 记录一次登录失败，连续失败次数达到 threshold 时暂停自动查询，返回更新后的认证信息
+ */
+export async function recordAuthFailure(ctx: Context, iaaaUser: IAAAUser, reason: string, threshold: number): Promise<IAAAUser> {
+  const updates = {
+    authFailures: iaaaUser.authFailures + 1,
+    lastAuthError: reason,
+    lastAuthFailureAt: new Date(),
+    suspended: iaaaUser.authFailures + 1 >= threshold
+  }
+  await ctx.database.set('iaaa_user', { userId: iaaaUser.userId }, updates)
+  return { ...iaaaUser, ...updates }
+}
+
+/**
+ * 设置用户下一次自动检查的时间，为 null 表示尽快检查
+ */
+export async function updateNextCheckAt(ctx: Context, userId: string, nextCheckAt: Date | null): Promise<void> {
+  await ctx.database.set('iaaa_user', { userId }, { nextCheckAt })
+}
+
+/**
+ * 登录成功后清除连续登录失败的记录
+ */
+export async function clearAuthFailures(ctx: Context, userId: string): Promise<void> {
+  await ctx.database.set('iaaa_user', { userId }, { authFailures: 0, lastAuthError: '', suspended: false })
+}
+
 /**
  * 获取或创建用户的 Blackboard Watcher 配置
  */
@@ -141,7 +519,7 @@ export async function getOrCreateBBConfig(ctx: Context, userId: string): Promise
   if (!bbConfig) {
     // 若不存在，创建新的配置记录
     const now = new Date()
-    const records = await ctx.database.upsert('bb_watcher_config', [
+    await ctx.database.upsert('bb_watcher_config', [
       {
         userId,
         createdAt: now,
@@ -149,7 +527,9 @@ export async function getOrCreateBBConfig(ctx: Context, userId: string): Promise
         // 其他字段使用模型中定义的默认值
       }
     ], ['userId'])
-    bbConfig = records[0]
+    // upsert 不返回记录本身，需要重新查询一次
+    bbConfigs = await ctx.database.get('bb_watcher_config', { userId })
+    bbConfig = bbConfigs[0]
   }
 
   return bbConfig
@@ -244,3 +624,148 @@ export async function createAssignmentRecords(ctx: Context, userId: string, reco
     console.log(`批量创建日程记录出错：${e.message}`)
   }
 }
+
+/**
+ * 更新一条已有的日程记录
+ */
+export async function updateAssignmentRecord(ctx: Context, id: number, updates: Partial<AssignmentRecord>): Promise<void> {
+  await ctx.database.set('assignment_record', { id }, {
+    ...updates,
+    updatedAt: new Date()
+  })
+}
+
+/**
+ * 获取用户的成绩记录
+ */
+export async function getGradeRecords(ctx: Context, userId: string): Promise<GradeRecord[]> {
+  return await ctx.database.get('grade_record', { userId })
+}
+
+/**
+ * 批量创建成绩记录
+ */
+export async function createGradeRecords(ctx: Context, userId: string, records: Omit<GradeRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[]): Promise<void> {
+  const now = new Date()
+
+  try {
+    for (const record of records) {
+      await ctx.database.create('grade_record', { userId, createdAt: now, updatedAt: now, ...record })
+    }
+  }
+  catch (e) {
+    console.log(`批量创建成绩记录出错：${e.message}`)
+  }
+}
+
+/**
+ * 更新一条已有的成绩记录
+ */
+export async function updateGradeRecord(ctx: Context, id: number, updates: Partial<GradeRecord>): Promise<void> {
+  await ctx.database.set('grade_record', { id }, {
+    ...updates,
+    updatedAt: new Date()
+  })
+}
+
+/**
+ * 获取所有用户的摘要待发送条目，不包括迁移时隔离的旧数据
+ */
+export async function getAllDigestItems(ctx: Context): Promise<DigestItem[]> {
+  const rows = await ctx.database.get('digest_item', {})
+  return rows.filter(row => !isQuarantinedUserId(row.userId))
+}
+
+/**
+ * 批量创建摘要待发送条目
+ */
+export async function createDigestItems(ctx: Context, userId: string, items: (Omit<DigestItem, 'id' | 'userId' | 'createdAt' | 'attachments'> & Partial<Pick<DigestItem, 'attachments'>>)[]): Promise<void> {
+  const now = new Date()
+
+  try {
+    for (const item of items) {
+      await ctx.database.create('digest_item', { userId, createdAt: now, ...item })
+    }
+  }
+  catch (e) {
+    console.log(`批量创建摘要条目出错：${e.message}`)
+  }
+}
+
+/**
+ * 删除已经发送的摘要条目
+ */
+export async function removeDigestItems(ctx: Context, ids: number[]): Promise<void> {
+  if (ids.length === 0) return
+  await ctx.database.remove('digest_item', { id: ids })
+}
+
+/**
+ * 获取所有用户的待发送消息，不包括迁移时隔离的旧数据
+ */
+export async function getAllOutboxMessages(ctx: Context): Promise<OutboxMessage[]> {
+  const rows = await ctx.database.get('outbox_message', {})
+  return rows.filter(row => !isQuarantinedUserId(row.userId))
+}
+
+/**
+ * 创建一条待发送消息，可以附带之后再下载发送的附件
+ */
+export async function createOutboxMessage(ctx: Context, userId: string, content: string, attachments: Attachment[] = []): Promise<void> {
+  await ctx.database.create('outbox_message', { userId, content, attachments: JSON.stringify(attachments), createdAt: new Date() })
+}
+
+/**
+ * 删除已经发送的待发送消息
+ */
+export async function removeOutboxMessages(ctx: Context, ids: number[]): Promise<void> {
+  if (ids.length === 0) return
+  await ctx.database.remove('outbox_message', { id: ids })
+}
+
+/**
+ * 获取用户订阅的所有群聊
+ */
+export async function getSubscriptions(ctx: Context, userId: string): Promise<Subscription[]> {
+  return await ctx.database.get('bb_subscription', { userId })
+}
+
+/**
+ * 创建或更新用户在某个群聊中的订阅
+ */
+export async function upsertSubscription(ctx: Context, userId: string, platform: string, channelId: string, updates: Partial<Subscription>): Promise<void> {
+  const existing = await ctx.database.get('bb_subscription', { userId, platform, channelId })
+  if (existing.length > 0) {
+    await ctx.database.set('bb_subscription', { id: existing[0].id }, updates)
+  } else {
+    await ctx.database.create('bb_subscription', { ...updates, userId, platform, channelId, createdAt: new Date() })
+  }
+}
+
+/**
+ * 删除一个群聊订阅
+ */
+export async function removeSubscription(ctx: Context, id: number): Promise<void> {
+  await ctx.database.remove('bb_subscription', { id })
+}
+
+/**
+ * 获取用户的通知过滤规则
+ */
+export async function getNoticeRules(ctx: Context, userId: string): Promise<NoticeRule[]> {
+  return await ctx.database.get('bb_notice_rule', { userId })
+}
+
+/**
+ * 添加一条通知过滤规则
+ */
+export async function createNoticeRule(ctx: Context, userId: string, rule: Omit<NoticeRule, 'id' | 'userId' | 'createdAt'>): Promise<void> {
+  await ctx.database.create('bb_notice_rule', { ...rule, userId, createdAt: new Date() })
+}
+
+/**
+ * 删除一条通知过滤规则
+ */
+export async function removeNoticeRule(ctx: Context, id: number): Promise<void> {
+  await ctx.database.remove('bb_notice_rule', { id })
+}
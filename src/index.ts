@@ -1,10 +1,19 @@
 import { Context } from 'koishi'
 import { Config, name, inject } from './types'
-import { initializeDatabase } from './database'
+import { initializeDatabase, migrateToUnifiedUserIds, migrateEventRules, migrateAssignmentStages } from './database'
 import { registerIAAACommands } from './commands/iaaa'
 import { registerConfigCommands } from './commands/config'
 import { registerCheckCommands } from './commands/check'
+import { registerNoticeCommands } from './commands/notices'
+import { registerICSCommands } from './commands/ics'
+import { registerSubscriptionCommands } from './commands/subscription'
+import { registerRuleCommands } from './commands/rules'
+import { registerSettingCommands } from './commands/settings'
+import { registerCourseCommands } from './commands/courses'
+import { registerTemplateCommands } from './commands/templates'
 import { ScheduleService } from './core/schedule'
+import { RateLimiter } from './core/rate_limiter'
+import { registerICSFeed } from './core/icalendar'
 
 export { name, Config, inject } from './types'
 
@@ -12,13 +21,37 @@ export function apply(ctx: Context, config: Config) {
   // 初始化数据库模型
   initializeDatabase(ctx)
 
-  // 注册 iaaa, blackboard.config, blackboard.check 指令
-  registerIAAACommands(ctx, config)
+  // 把按平台账号保存的旧数据迁移到 Koishi 的统一用户上，把数字形式的通知类型转换为事件类型规则，并为旧的日程记录补上已提醒的阶段
+  ctx.on('ready', async () => {
+    await migrateToUnifiedUserIds(ctx)
+    await migrateEventRules(ctx)
+    await migrateAssignmentStages(ctx)
+  })
+
+  // 手动查询的指令与定时查询共用同一个请求速率限制器，所有请求一起计入每秒请求数的上限
+  const rateLimiter = new RateLimiter(config.requestsPerSecond)
+
+  // 注册 iaaa, blackboard.config, blackboard.check, blackboard.notices 等指令
+  registerIAAACommands(ctx, config, rateLimiter)
   registerConfigCommands(ctx, config)
-  registerCheckCommands(ctx, config)
+  registerSettingCommands(ctx, config)
+  registerCourseCommands(ctx, config, rateLimiter)
+  registerTemplateCommands(ctx, config)
+  registerCheckCommands(ctx, config, rateLimiter)
+  registerNoticeCommands(ctx, config)
+  registerICSCommands(ctx, config)
+  registerSubscriptionCommands(ctx, config)
+  registerRuleCommands(ctx, config)
+
+  // 启用日历订阅时，通过 HTTP 服务器提供订阅链接
+  if (config.icsFeed) {
+    ctx.inject(['server'], (ctx) => {
+      registerICSFeed(ctx)
+    })
+  }
 
   // 初始化并启动定时服务
-  const scheduleService = new ScheduleService(ctx, config)
+  const scheduleService = new ScheduleService(ctx, config, rateLimiter)
   scheduleService.startSchedule()
 
   // 插件卸载时停止定时任务
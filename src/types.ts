@@ -1,20 +1,89 @@
 import { Schema } from 'koishi'
+import type { RateLimiter } from './core/rate_limiter'
+import type { FileCache } from './core/file_cache'
 
 export const name = 'pku-blackboard-watcher'
 
-export const inject = ['database', 'cron']
+export const inject = {
+  database: { required: true },
+  cron: { required: true },
+  server: { required: false }
+}
 
 // 全局配置接口
 export interface Config {
   encryptionKey: string
   checkInterval: number
+  minCheckInterval: number
+  maxCheckInterval: number
+  checkCron: string
+  activeHoursStart: string
+  activeHoursEnd: string
+  checkJitter: number
+  concurrency: number
+  requestsPerSecond: number
+  icsFeed: boolean
+  iaaaBaseUrl: string
+  courseBaseUrl: string
+  authFailureThreshold: number
+  maxRetries: number
+  retryBaseDelay: number
+  maxAttachmentSize: number
+  attachmentCacheSize: number
 }
 
 export const Config: Schema<Config> = Schema.object({
   encryptionKey: Schema.string().description('用于加密 IAAA 密码的密钥（设置后请不要随意修改）').required(),
-  checkInterval: Schema.number().description('每隔多少时间（分钟）自动为所有用户检查新通知与 DDL').required().min(30).max(240).step(1),
+  checkInterval: Schema.number().description('默认每隔多少时间（分钟）为每个用户检查一次新通知与 DDL').required().min(5).max(1440).step(1),
+  minCheckInterval: Schema.number().description('用户自行设置检查间隔（分钟）时允许的最小值').default(30).min(5).max(1440).step(1),
+  maxCheckInterval: Schema.number().description('用户自行设置检查间隔（分钟）时允许的最大值').default(240).min(5).max(1440).step(1),
+  checkCron: Schema.string().description('只在 cron 表达式指定的时刻检查（如 0 */2 * * *），留空表示每分钟检查一次有哪些用户到了检查时间').default(''),
+  activeHoursStart: Schema.string().pattern(/^(([01]?\d|2[0-3]):[0-5]\d|24:00)?$/).description('每天开始自动检查的时刻（HH:mm，东八区），留空表示全天检查').default(''),
+  activeHoursEnd: Schema.string().pattern(/^(([01]?\d|2[0-3]):[0-5]\d|24:00)?$/).description('每天停止自动检查的时刻（HH:mm，东八区，可以写作 24:00），与开始时刻相同表示全天检查').default(''),
+  checkJitter: Schema.number().description('每次为用户安排下一次检查时加入的随机延迟上限（分钟），避免所有用户同时检查').default(5).min(0).max(60).step(1),
+  concurrency: Schema.number().description('定时查询时最多同时为多少个用户查询').default(4).min(1).max(32).step(1),
+  requestsPerSecond: Schema.number().description('定时查询时每秒最多向 IAAA 和教学网发出多少个请求（所有用户共享）').default(5).min(0.5).max(50).step(0.5),
+  icsFeed: Schema.boolean().description('是否通过 Koishi 的 HTTP 服务器为用户提供日历订阅链接（需要 server 服务）').default(false),
+  iaaaBaseUrl: Schema.string().description('IAAA 认证服务的地址（一般无需修改，可指向本地模拟服务器用于测试）').default('https://iaaa.pku.edu.cn'),
+  courseBaseUrl: Schema.string().description('教学网的地址（一般无需修改，可指向本地模拟服务器用于测试）').default('https://course.pku.edu.cn'),
+  authFailureThreshold: Schema.number().description('用户的 IAAA 账号连续登录失败多少次后暂停为其自动查询（重新绑定后恢复）').default(3).min(1).max(10).step(1),
+  maxRetries: Schema.number().description('网络异常或教学网暂时不可用时，每个请求最多重试几次').default(3).min(0).max(5).step(1),
+  retryBaseDelay: Schema.number().description('第一次重试前等待的时间（毫秒），之后每次重试等待时间翻倍并加入随机抖动').default(1000).min(10).max(10000).step(10),
+  maxAttachmentSize: Schema.number().description('转发作业与课程内容附件时允许的最大文件大小（MB），设为 0 表示不转发附件').default(20).min(0).max(100).step(1),
+  attachmentCacheSize: Schema.number().description('定时查询时缓存已下载附件的总大小（MB），多个用户收到同一个附件时只下载一次').default(100).min(0).max(1024).step(1),
 })
 
+// 教学网客户端的连接选项
+export interface BlackboardClientOptions {
+  iaaaBaseUrl?: string  // IAAA 认证服务的地址
+  courseBaseUrl?: string  // 教学网的地址
+  maxRetries?: number  // 暂时性错误的最大重试次数
+  retryBaseDelay?: number  // 第一次重试前等待的毫秒数
+  rateLimiter?: RateLimiter  // 多个客户端共享的请求速率限制器
+  maxAttachmentSize?: number  // 下载附件的大小上限（MB）
+  fileCache?: FileCache  // 多个客户端共享的附件缓存
+}
+
+// 通知或作业页面中链接的附件
+export interface Attachment {
+  fileId: string  // 教学网文件 ID（链接中的 xid），用于缓存
+  name: string  // 文件名
+  url: string  // 下载地址（教学网内的路径）
+}
+
+// 下载的附件内容
+export interface AttachmentFile {
+  name: string  // 文件名
+  mime: string  // 文件类型
+  data: Buffer  // 文件内容
+}
+
+// 教学网课程信息
+export interface CourseInfo {
+  id: string  // 课程的教学网 ID
+  name: string  // 去除学期后缀的课程名
+}
+
 // IAAA 认证信息表接口
 export interface IAAAUser {
   id: number
@@ -22,6 +91,14 @@ export interface IAAAUser {
 
   username: string  // IAAA 用户名
   password: string  // 加密后的密码
+  sessionCookies: string  // 加密后的教学网会话 cookies（json 格式），用于复用会话
+
+  authFailures: number  // 连续登录失败（学号或密码错误）的次数
+  lastAuthError: string  // 最近一次登录失败的原因
+  lastAuthFailureAt: Date  // 最近一次登录失败的时间
+  suspended: boolean  // 是否因连续登录失败而暂停自动查询
+
+  nextCheckAt: Date  // 下一次自动检查的时间，为空表示尽快检查
 
   createdAt: Date
   updatedAt: Date
@@ -34,17 +111,38 @@ export interface BlackboardWatcherConfig {
 
   // 通用配置
   courseAliases: string  // 为课程指定的别名（json 格式）
+  deliveryMode: string  // 消息发送方式：immediate（立即）、hourly（每小时汇总）、daily（每日摘要）
+  digestTime: string  // 每日摘要的发送时间（HH:mm，东八区）
+  quietHoursStart: string  // 免打扰时段的开始时间（HH:mm，东八区），为空表示不启用
+  quietHoursEnd: string  // 免打扰时段的结束时间（HH:mm，东八区）
+  icsToken: string  // 日历订阅链接的密钥，为空表示尚未生成
+  checkInterval: number  // 自行设置的检查间隔（分钟），0 表示使用管理员设置的默认值
+  notifyPrivate: boolean  // 是否通过私聊发送提醒（关闭后只发送到订阅的群聊）
+  deliveryPlatform: string  // 私聊提醒所使用的平台，为空表示尚未记录
+  deliverySelfId: string  // 私聊提醒所使用的机器人账号
+  deliveryUserId: string  // 用户在该平台上的账号
+  deliveryChannelId: string  // 私聊频道 ID，为空时通过机器人的私信接口发送
+  courseList: string  // 用户当前的课程列表（json 格式），检查通知与使用 blackboard.courses 时更新，配置指令中的课程序号按它解析
+  initTemplate: string  // 各模块初始化消息的模板，为空时使用默认消息
 
   // 通知提醒配置
   notifyNotice: boolean  // 是否需要检查新通知并提醒
   noticeTitlePrefix: string  // 提醒消息的前缀
-  generalAllowedEvents: string  // 需要提醒的通知类型
-  specificCourseEvents: string  // 为某些课程特别设置需要提醒的通知类型（json 格式）
+  generalAllowedEvents: string  // 需要提醒或屏蔽的通知事件类型规则（逗号分隔，如 "*,-AN:AN_AVAIL"）
+  specificCourseEvents: string  // 为某些课程特别设置的通知事件类型规则（json 格式），没有匹配的类型按总体规则处理
+  attachmentCourses: string  // 需要转发附件的课程（json 格式，课程名到 true 的映射）
+  attachmentMaxSize: number  // 转发附件的大小上限（MB），不超过管理员设置的上限
+  noticeTemplate: string  // 通知提醒消息的模板，为空时使用默认模板
 
   // 日程提醒配置
   notifyAssignment: boolean  // 是否需要检查未完成的 DDL 并提醒
   calendarAdvanceHours: number  // 在 DDL 截止前几小时（左右）发送提醒消息
+  calendarReminderStages: string  // 额外的提醒阶段，即截止前的若干小时数（逗号分隔）
   assignmentTitlePrefix: string  // 提醒消息的前缀
+  assignmentTemplate: string  // DDL 提醒消息的模板，为空时使用默认模板
+
+  // 成绩提醒配置
+  notifyGrade: boolean  // 是否需要检查新公布或有变化的成绩并提醒
 
   createdAt: Date
   updatedAt: Date
@@ -58,15 +156,31 @@ export interface NoticeRecord {
   noticeId: string  // 通知的教学网 ID
   time: string  // 发布时间
   course: string  // 课程原始名称
+  courseId: string  // 课程的教学网 ID
   title: string  // 通知标题
   content: string  // 通知内容
   event: string  // 事件类型
   shouldNotify: boolean  // 是否需要通知
+  trace: string  // 决定是否通知的原因
 
   createdAt: Date
   updatedAt: Date
 }
 
+// 通知过滤规则表接口（按标题、内容或课程匹配关键词或正则表达式，决定提醒或屏蔽通知）
+export interface NoticeRule {
+  id: number
+  userId: string  // 关联到 Koishi 的 user.id
+
+  priority: number  // 优先级，数字越小越先匹配
+  action: 'include' | 'exclude'  // 匹配时提醒还是屏蔽
+  field: 'title' | 'content' | 'course' | 'all'  // 匹配的通知字段
+  pattern: string  // 关键词或正则表达式
+  isRegex: boolean  // pattern 是否为正则表达式
+
+  createdAt: Date
+}
+
 // 日程记录表接口（记录已处理的作业、事件 DDL）
 export interface AssignmentRecord {
   id: number
@@ -74,21 +188,116 @@ export interface AssignmentRecord {
 
   assignmentId: string  // 日程的教学网 ID
   time: string  // 截止时间
+  endDate: string  // 教学网返回的原始截止时间（UTC）
   course: string  // 课程原始名称
   title: string  // 日程标题
-  description: string  // 日程描述
-  shouldNotify: boolean  // 是否需要通知
+  description: string  // 日程描述（附带作业要求）
+  rawDescription: string  // 教学网日程表中的原始描述，用于检测日程是否被修改
+  shouldNotify: boolean  // 是否需要通知（已提交过的作业不再提醒）
+  notifiedStages: string  // 已经发送过提醒的阶段（逗号分隔）
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 教学网「我的成绩」页面中的一项成绩
+export interface GradeInfo {
+  itemId: string  // 成绩项的教学网 ID
+  name: string  // 成绩项名称
+  score: string  // 得分
+  pointsPossible: string  // 满分，没有时为空
+  feedback: string  // 教师评语，没有时为空
+}
+
+// 成绩记录表接口（记录已处理的成绩）
+export interface GradeRecord {
+  id: number
+  userId: string  // 关联到 Koishi 的 user.id
+
+  courseId: string  // 课程的教学网 ID
+  course: string  // 课程原始名称
+  itemId: string  // 成绩项的教学网 ID
+  name: string  // 成绩项名称
+  score: string  // 得分
+  pointsPossible: string  // 满分，没有时为空
+  feedback: string  // 教师评语，没有时为空
 
   createdAt: Date
   updatedAt: Date
 }
 
-// 扩展 Koishi 的 Tables 接口，增加上述四个表
+// 摘要待发送条目表接口（汇总发送模式下暂存的通知与日程提醒）
+export interface DigestItem {
+  id: number
+  userId: string  // 关联到 Koishi 的 user.id
+
+  type: string  // 条目类型：notice（通知）、assignment（日程）或 grade（成绩）
+  itemId: string  // 对应通知或日程的教学网 ID
+  course: string  // 课程原始名称
+  title: string  // 通知或日程标题
+  content: string  // 通知内容，或日程的变更说明
+  time: string  // 通知发布时间或日程截止时间
+  endDate: string  // 日程的原始截止时间（UTC），通知为空
+  attachments: string  // 通知需要转发的附件（json 格式），摘要发送后转入待发送消息表
+
+  createdAt: Date
+}
+
+// 待发送消息表接口（免打扰时段内暂存、时段结束后再发送的消息）
+export interface OutboxMessage {
+  id: number
+  userId: string  // 关联到 Koishi 的 user.id
+
+  content: string  // 消息内容，只转发附件时为空
+  attachments: string  // 要转发的附件（json 格式），发送时再下载
+
+  createdAt: Date
+}
+
+// 群聊订阅表接口（用户把自己的提醒转发到群聊，每个群聊有各自的过滤条件）
+export interface Subscription {
+  id: number
+  userId: string  // 关联到 Koishi 的 user.id
+
+  platform: string  // 群聊所在的平台
+  selfId: string  // 用户注册订阅时所使用的机器人账号
+  channelId: string  // 群聊频道 ID
+  guildId: string  // 群组 ID
+
+  noticeEvents: string  // 需要转发的通知事件类型规则，为空表示不转发通知
+  courses: string  // 只转发这些课程的提醒（课程名或别名中的关键词，逗号分隔），为空表示所有课程
+  notifyAssignment: boolean  // 是否转发日程 DDL 提醒
+
+  createdAt: Date
+}
+
+// 转发到群聊的提醒条目信息，用于匹配群聊订阅的过滤条件
+export interface SubscriptionItem {
+  type: 'notice' | 'assignment' | 'grade'
+  course: string  // 课程原始名称
+  courseId?: string  // 课程的教学网 ID，日程没有
+  event: string  // 通知的事件类型，日程为空，成绩为 GB:GB_GRA_UPDATED
+}
+
+// 数据迁移记录表接口（记录已经执行过的一次性数据迁移）
+export interface Migration {
+  name: string  // 迁移名称
+
+  appliedAt: Date
+}
+
+// 扩展 Koishi 的 Tables 接口，增加上述九个表
 declare module 'koishi' {
   interface Tables {
     iaaa_user: IAAAUser
     bb_watcher_config: BlackboardWatcherConfig
     notice_record: NoticeRecord
     assignment_record: AssignmentRecord
+    grade_record: GradeRecord
+    digest_item: DigestItem
+    outbox_message: OutboxMessage
+    bb_subscription: Subscription
+    bb_notice_rule: NoticeRule
+    bb_migration: Migration
   }
 }
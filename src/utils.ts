@@ -1,4 +1,7 @@
 import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import { Session } from 'koishi'
+import { Config, BlackboardWatcherConfig, CourseInfo, Attachment, GradeInfo } from './types'
+import { htmlToText } from './core/html_render'
 
 /**
  * 文本加密工具类，用于 IAAA 密码的存储和提取
@@ -83,6 +86,16 @@ export function convertToTimestamp(timeStr: string): number {
   return date.getTime()
 }
 
+/**
+ * 将 convertToTime 等函数生成的东八区时间字符串（如 2025/3/1 12:00:00）转换回毫秒时间戳，无法解析时返回 NaN
+ */
+export function parseLocalTime(timeStr: string): number {
+  const match = timeStr?.match(/^(\d{4})[\/-](\d{1,2})[\/-](\d{1,2})(?:\s+(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?)?$/)
+  if (!match) return NaN
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match
+  return Date.UTC(+year, +month - 1, +day, +hours - 8, +minutes, +seconds)
+}
+
 /**
  * 将 UTC 时间字符串转换到东八区时间字符串
  */
@@ -100,6 +113,159 @@ export function testWithinHours(timeStr: string, advanceHours: number): boolean
   return targetTimestamp - currentTimestamp <= advanceHours * 3600000
 }
 
+/**
+ * 获取不晚于给定时刻的、最近一次东八区的每日 HH:mm 时刻，返回毫秒时间戳
+ */
+export function getLatestDailyTime(hhmm: string, now: number = Date.now()): number {
+  const [hours, minutes] = hhmm.split(':').map(Number)
+  const offset = 8 * 3600000
+  const dayStart = Math.floor((now + offset) / 86400000) * 86400000 - offset
+  const timestamp = dayStart + (hours * 60 + minutes) * 60000
+  return timestamp > now ? timestamp - 86400000 : timestamp
+}
+
+/**
+ * 获取包含给定时刻的、或在其之后最近一次的东八区每日时间段 [start, end)，返回毫秒时间戳
+ */
+export function getDailyWindow(start: string, end: string, now: number = Date.now()): [number, number] {
+  const [startHours, startMinutes] = start.split(':').map(Number)
+  const [endHours, endMinutes] = end.split(':').map(Number)
+  const duration = ((endHours * 60 + endMinutes - startHours * 60 - startMinutes + 1440) % 1440) * 60000
+
+  const latestStart = getLatestDailyTime(start, now)
+  if (now < latestStart + duration) {
+    return [latestStart, latestStart + duration]
+  }
+  return [latestStart + 86400000, latestStart + 86400000 + duration]
+}
+
+/**
+ * 测试给定时刻是否处于东八区每日的免打扰时段内，未设置时段时总是返回 false
+ */
+export function isInQuietHours(start: string, end: string, now: number = Date.now()): boolean {
+  if (!start || !end) return false
+  const [windowStart] = getDailyWindow(start, end, now)
+  return windowStart <= now
+}
+
+/**
+ * 测试给定时刻是否处于东八区每日的活跃时段内（结束时刻可以写作 24:00），未设置时段时总是返回 true
+ * 开始与结束是同一时刻时（如 00:00 - 24:00）表示全天活跃
+ */
+export function isInActiveHours(start: string, end: string, now: number = Date.now()): boolean {
+  if (!start || !end) return true
+  const [startHours, startMinutes] = start.split(':').map(Number)
+  const [endHours, endMinutes] = end.split(':').map(Number)
+  if ((startHours * 60 + startMinutes) % 1440 === (endHours * 60 + endMinutes) % 1440) return true
+  return isInQuietHours(start, end.replace(/^24:/, '00:'), now)
+}
+
+/**
+ * 获取用户实际使用的检查间隔（分钟），自行设置的值限制在管理员允许的范围内
+ * 按 cron 表达式检查且用户没有自行设置时返回 0，表示每个 cron 时刻都检查
+ */
+export function getUserCheckInterval(config: Config, bbConfig: BlackboardWatcherConfig): number {
+  if (!bbConfig.checkInterval) {
+    return config.checkCron ? 0 : config.checkInterval
+  }
+  return Math.min(Math.max(bbConfig.checkInterval, config.minCheckInterval), config.maxCheckInterval)
+}
+
+/**
+ * 获取用户在 Koishi 中的统一账号 ID，同一用户在各个平台上关联的账号共用这个 ID，指令需要声明 userFields(['id'])
+ */
+export function getUnifiedUserId(session: Session<'id'>): string {
+  return String(session.user.id)
+}
+
+/**
+ * 由用户发来消息的 session 得到私聊提醒的投递路线（平台、机器人账号、用户账号与私聊频道）
+ * 在群聊中使用指令时只记录平台与账号，提醒仍然通过私信发送，不会发到群里
+ */
+export function getDeliveryRoute(session: Session): Pick<BlackboardWatcherConfig, 'deliveryPlatform' | 'deliverySelfId' | 'deliveryUserId' | 'deliveryChannelId'> {
+  return {
+    deliveryPlatform: session.platform,
+    deliverySelfId: session.selfId,
+    deliveryUserId: session.userId,
+    deliveryChannelId: session.isDirect ? session.channelId : ''
+  }
+}
+
+/**
+ * 描述私聊提醒的投递路线
+ */
+export function describeDeliveryRoute(bbConfig: BlackboardWatcherConfig): string {
+  if (!bbConfig.deliveryPlatform) {
+    return '未记录（依次尝试每个平台的机器人）'
+  }
+  const target = bbConfig.deliveryChannelId ? `私聊频道 ${bbConfig.deliveryChannelId}` : `用户 ${bbConfig.deliveryUserId}`
+  return `${bbConfig.deliveryPlatform} 平台机器人 ${bbConfig.deliverySelfId} → ${target}`
+}
+
+/**
+ * 把配置指令中的课程参数解析为配置使用的课程名（小写），参数可以是 blackboard.courses 列出的序号（如 3 或 #3）
+ * 序号超出范围时返回 null
+ */
+export function resolveCourseKey(bbConfig: BlackboardWatcherConfig, input: string): string | null {
+  const text = input.trim()
+  const match = text.match(/^#?(\d+)$/)
+  if (!match) return text.toLowerCase()
+
+  const courses: CourseInfo[] = parseJSON(bbConfig.courseList, [])
+  const course = courses[Number(match[1]) - 1]
+  return course ? course.name.toLowerCase() : null
+}
+
+/**
+ * 校验 HH:mm 格式的时刻字符串
+ */
+export function isValidClockTime(hhmm: string): boolean {
+  return /^([01]?\d|2[0-3]):[0-5]\d$/.test(hhmm)
+}
+
+/**
+ * 将小时数转换为可读的时长描述，不足 1 小时的以分钟表示
+ */
+export function formatHours(hours: number): string {
+  if (hours < 1) {
+    return `${Math.round(hours * 60)} 分钟`
+  }
+  return `${Math.round(hours * 100) / 100} 小时`
+}
+
+/**
+ * 计算指定时间距离现在的剩余时间，并转换为可读的时长描述
+ */
+export function formatRemaining(timeStr: string): string {
+  const remaining = convertToTimestamp(timeStr) - Date.now()
+  if (remaining <= 0) return '已截止'
+
+  const minutes = Math.floor(remaining / 60000)
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor(minutes % 1440 / 60)
+  if (days > 0) return `${days} 天 ${hours} 小时`
+  if (hours > 0) return `${hours} 小时 ${minutes % 60} 分钟`
+  return `${minutes} 分钟`
+}
+
+/**
+ * 解析以逗号分隔的提醒阶段（截止前的小时数），返回去重后从大到小排列的小时数列表
+ */
+export function parseReminderStages(text: string): number[] {
+  if (!text) return []
+  const stages = text.split(/[,，\s]+/)
+    .map(stage => parseFloat(stage))
+    .filter(hours => !isNaN(hours) && hours > 0)
+  return [...new Set(stages)].sort((a, b) => b - a)
+}
+
+/**
+ * 合并用户的提前提醒时间与额外的提醒阶段，得到完整的多阶段提醒列表（从大到小）
+ */
+export function getReminderStages(advanceHours: number, extraStages: string): number[] {
+  return parseReminderStages([advanceHours, extraStages].join(','))
+}
+
 /**
  * 去除课程名的学期后缀
  */
@@ -108,6 +274,14 @@ export function removeSuffix(courseName: string): string {
   return courseName.replace(pattern, '')
 }
 
+/**
+ * 从通知数据的 sx_courses 中提取当前的课程列表，课程名去除学期后缀
+ */
+export function parseCourseList(noticeData: any): CourseInfo[] {
+  const courses = noticeData?.sv_extras?.sx_courses || []
+  return courses.map((course: any) => ({ id: course.id, name: removeSuffix(course.name) }))
+}
+
 /**
  * 解析 html 并提取通知标题中的有效信息，去除 "课程公告" "打开/拒绝" 等标签
  */
@@ -135,8 +309,8 @@ export function parseTitle(titleHtml: string): string {
 export function parseContent(contentHtml: string): string {
   if (!contentHtml) return ''
 
-  // 去除所有 HTML 标签，提取纯文本
-  return contentHtml.replace(/<[^>]*>/g, '').trim()
+  // 转换为纯文本，保留段落、列表与链接网址
+  return htmlToText(contentHtml)
 }
 
 /**
@@ -165,7 +339,7 @@ export function parseInstruction(assignmentHtml: string): string {
   // 提取 class="vtbegenerated" 的div中的文本
   const vtbGeneratedMatch = assignmentHtml.match(/<div[^>]*class="[^"]*vtbegenerated[^"]*"[^>]*>(.*?)<\/div>/is)
   if (vtbGeneratedMatch) {
-    text = vtbGeneratedMatch[1].replace(/<[^>]*>/g, '').trim()
+    text = htmlToText(vtbGeneratedMatch[1])
   }
 
   // 检查是否已提交过该作业
@@ -203,3 +377,55 @@ export function parseInstruction(assignmentHtml: string): string {
 
   return text
 }
+
+/**
+ * 提取页面（上传作业页面或内容通知的详情）中链接的教学网附件，同一文件只保留一次
+ * 附件链接形如 /bbcswebdav/pid-3001-dt-content-rid-1_1/xid-1_1，其中 xid 为文件 ID
+ */
+export function parseAttachments(html: string): Attachment[] {
+  if (!html) return []
+
+  const attachments: Attachment[] = []
+  for (const match of html.matchAll(/<a[^>]*href="([^"]*\/bbcswebdav\/[^"]*)"[^>]*>(.*?)<\/a>/gis)) {
+    const url = match[1].replace(/&amp;/g, '&').replace(/^https?:\/\/[^/]+/, '')
+    const fileId = url.match(/xid-(\d+_\d+)/)?.[1] || url.match(/rid-(\d+_\d+)/)?.[1] || url
+    if (attachments.some(attachment => attachment.fileId === fileId)) continue
+
+    // 链接文字为空时使用路径中的文件名
+    let name = match[2].replace(/<[^>]*>/g, '').trim()
+    if (!name) {
+      const path = url.split('?')[0]
+      name = path.slice(path.lastIndexOf('/') + 1)
+      try {
+        name = decodeURIComponent(name)
+      } catch {}
+    }
+    attachments.push({ fileId, name, url })
+  }
+  return attachments
+}
+
+/**
+ * 提取「我的成绩」页面中已经公布分数的成绩项，没有分数（显示为 -）的成绩项不会包含在内
+ */
+export function parseGrades(gradesHtml: string): GradeInfo[] {
+  if (!gradesHtml) return []
+
+  const grades: GradeInfo[] = []
+  // 每个成绩项是一个 class 包含 sortable_item_row 的 div
+  const rows = gradesHtml.split(/(?=<div[^>]*class="[^"]*sortable_item_row)/i).slice(1)
+  for (const row of rows) {
+    const itemId = row.match(/^<div[^>]*\sid="([^"]+)"/i)?.[1]
+    const score = parseContent(row.match(/<span[^>]*class="grade"[^>]*>(.*?)<\/span>/is)?.[1] || '')
+    if (!itemId || !score || score === '-') continue
+
+    grades.push({
+      itemId,
+      name: parseContent(row.match(/<div[^>]*class="cell gradable"[^>]*>(.*?)<div/is)?.[1] || ''),
+      score,
+      pointsPossible: parseContent(row.match(/<span[^>]*class="pointsPossible[^"]*"[^>]*>(.*?)<\/span>/is)?.[1] || '').replace(/^\//, ''),
+      feedback: parseContent(row.match(/<div[^>]*id="feedbacktext_[^"]*"[^>]*>(.*?)<\/div>/is)?.[1] || '')
+    })
+  }
+  return grades
+}
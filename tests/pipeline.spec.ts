@@ -0,0 +1,1409 @@
+import { App, Bot, Context, h } from 'koishi'
+import { expect } from 'chai'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import mock from '@koishijs/plugin-mock'
+import memory from '@koishijs/plugin-database-memory'
+import server from '@koishijs/plugin-server'
+import * as watcher from '../src'
+import { ScheduleService } from '../src/core/schedule'
+import { matchesRule } from '../src/core/notice_rules'
+import { migrateToUnifiedUserIds, migrateEventRules, migrateAssignmentStages } from '../src/database'
+import { convertTimezone, isInActiveHours } from '../src/utils'
+import { NoticeRule } from '../src/types'
+import { BlackboardSimulator } from './simulator/server'
+
+const newNotices = JSON.parse(readFileSync(resolve(__dirname, 'simulator/fixtures/new_notices.json'), 'utf8'))
+
+/**
+ * 距现在 offset 毫秒的东八区时刻（HH:mm）
+ */
+function clock(offset: number): string {
+  return new Date(Date.now() + 8 * 3600000 + offset).toISOString().slice(11, 16)
+}
+
+/**
+ * 不会自动触发的 cron 服务，避免测试过程中的定时查询与手动查询同时处理同一批通知
+ */
+function manualCron(ctx: Context) {
+  ctx.provide('cron')
+  ;(ctx as any).cron = () => () => {}
+}
+
+// 测试使用的插件配置，教学网与 IAAA 的地址在模拟服务器启动后填入
+const baseConfig = {
+  encryptionKey: 'test-encryption-key',
+  checkInterval: 30,
+  minCheckInterval: 30,
+  maxCheckInterval: 240,
+  checkCron: '',
+  activeHoursStart: '',
+  activeHoursEnd: '',
+  checkJitter: 5,
+  concurrency: 4,
+  requestsPerSecond: 50,
+  icsFeed: false,
+  iaaaBaseUrl: '',
+  courseBaseUrl: '',
+  authFailureThreshold: 2,
+  maxRetries: 2,
+  retryBaseDelay: 10,
+  maxAttachmentSize: 20,
+  attachmentCacheSize: 100,
+}
+
+interface WatcherOptions {
+  config?: Partial<typeof baseConfig>
+  setup?: (app: App) => void
+  check?: boolean
+  capture?: boolean
+}
+
+// 一组测试共用的模拟服务器、应用与测试用户
+interface WatcherEnv {
+  simulator: BlackboardSimulator
+  app: App
+  config: typeof baseConfig
+  client: ReturnType<App['mock']['client']>
+  userId: string
+  schedule: ScheduleService
+  sent: string[]
+}
+
+/**
+ * 为一组测试启动各自的模拟服务器与 Koishi 应用，并为测试用户绑定 IAAA 账号
+ * - config 覆盖默认的插件配置，setup 可以在加载插件前安装其他插件
+ * - check 为真时先完成一次初始化查询
+ * - capture 为真时改为记录机器人发出的消息（env.sent），每个测试开始前清空
+ */
+function describeWatcher(title: string, options: WatcherOptions, tests: (env: WatcherEnv) => void) {
+  describe(title, function () {
+    // 每次查询通知都会等待 3 秒
+    this.timeout(30000)
+
+    const env: WatcherEnv = {
+      simulator: new BlackboardSimulator(),
+      app: new App(),
+      config: { ...baseConfig, ...options.config },
+      client: null,
+      userId: '',
+      schedule: null,
+      sent: [],
+    }
+    let sendMessage: Bot['sendMessage']
+
+    before(async () => {
+      await env.simulator.start()
+
+      env.app.plugin(mock)
+      env.app.plugin(memory)
+      env.app.plugin(manualCron)
+      options.setup?.(env.app)
+      env.config.iaaaBaseUrl = env.simulator.url
+      env.config.courseBaseUrl = env.simulator.url
+      env.app.plugin(watcher, env.config)
+      await env.app.start()
+      await env.app.mock.initUser('10001', 1)
+      env.client = env.app.mock.client('10001')
+      const [binding] = await env.app.database.get('binding', { platform: 'mock', pid: '10001' })
+      env.userId = String(binding.aid)
+      env.schedule = new ScheduleService(env.app, env.config)
+      await env.client.shouldReply(`iaaa.bind ${env.simulator.username} ${env.simulator.password}`, /绑定成功/)
+      if (options.check) {
+        await env.client.receive('blackboard.check')
+      }
+
+      if (options.capture) {
+        const bot = env.app.bots[0]
+        sendMessage = bot.sendMessage
+        bot.sendMessage = async (channelId, content) => {
+          env.sent.push(String(content))
+          return []
+        }
+      }
+    })
+
+    beforeEach(() => {
+      env.sent.length = 0
+    })
+
+    after(async () => {
+      if (sendMessage) {
+        env.app.bots[0].sendMessage = sendMessage
+      }
+      await env.simulator.stop()
+    })
+
+    tests(env)
+  })
+}
+
+describe('blackboard watcher pipeline', function () {
+  // 每次查询通知都会等待 3 秒
+  this.timeout(30000)
+
+  const simulator = new BlackboardSimulator()
+  const app = new App()
+  const config = { ...baseConfig }
+  let client: ReturnType<typeof app.mock.client>
+  // 测试用户在 Koishi 中的统一用户 ID
+  let userId: string
+
+  before(async () => {
+    await simulator.start()
+
+    app.plugin(mock)
+    app.plugin(memory)
+    app.plugin(manualCron)
+    config.iaaaBaseUrl = simulator.url
+    config.courseBaseUrl = simulator.url
+    app.plugin(watcher, config)
+    await app.start()
+    await app.mock.initUser('10001', 1)
+    client = app.mock.client('10001')
+    const [binding] = await app.database.get('binding', { platform: 'mock', pid: '10001' })
+    userId = String(binding.aid)
+  })
+
+  after(async () => {
+    await simulator.stop()
+  })
+
+  it('rejects a wrong IAAA password', async () => {
+    await client.shouldReply(`iaaa.bind ${simulator.username} wrong-password`, /IAAA 登录失败/)
+  })
+
+  it('binds an IAAA account', async () => {
+    await client.shouldReply(`iaaa.bind ${simulator.username} ${simulator.password}`, /绑定成功/)
+    await client.shouldReply('iaaa.info', new RegExp(simulator.username))
+  })
+
+  it('initializes on the first check without reminding existing items', async () => {
+    const replies = await client.receive('blackboard.check')
+
+    expect(replies.some(reply => reply.includes('通知提醒模块首次运行成功'))).to.be.true
+    expect(replies.some(reply => reply.includes('同步了 2 条已有通知'))).to.be.true
+    expect(replies.some(reply => reply.includes('日程提醒模块首次运行成功'))).to.be.true
+    expect(replies.some(reply => reply.includes('第一周课程安排'))).to.be.false
+    expect(replies.some(reply => reply.includes('Data Lab'))).to.be.false
+    expect(replies[replies.length - 1]).to.include('已查询完成')
+  })
+
+  it('reuses the stored Blackboard session', async () => {
+    const loginCount = simulator.loginCount
+    const replies = await client.receive('blackboard.check')
+
+    expect(simulator.loginCount).to.equal(loginCount)
+    expect(replies).to.deep.equal(['新通知和日程 DDL 已查询完成！'])
+  })
+
+  it('logs in again after the session expires', async () => {
+    simulator.expireSessions()
+    const loginCount = simulator.loginCount
+    await client.shouldReply('blackboard.check', '新通知和日程 DDL 已查询完成！')
+
+    expect(simulator.loginCount).to.equal(loginCount + 1)
+  })
+
+  it('reminds new notices with assignment instructions', async () => {
+    for (const notice of newNotices) {
+      simulator.addNotice(notice)
+    }
+    const replies = await client.receive('blackboard.check')
+
+    const assignment = replies.find(reply => reply.includes('Data Lab'))
+    expect(assignment).to.include('[教学网] 计算机系统导论：Data Lab')
+    expect(assignment).to.include('附件1：datalab-handout.tar')
+    expect(assignment).to.include('截止时间：')
+    expect(replies.some(reply => reply.includes('第二周课件'))).to.be.true
+
+    // 已经提醒过的通知不再重复提醒
+    await client.shouldReply('blackboard.check', '新通知和日程 DDL 已查询完成！')
+  })
+
+  it('reminds unsubmitted deadlines but not submitted ones', async () => {
+    simulator.submitted.add('_content_4002')
+    simulator.addCalendarEntry({
+      id: '_blackboard.platform.gradebook2.GradableItem-_4001_1',
+      contentId: '_content_4001',
+      title: 'Bomb Lab',
+      calendarName: '计算机系统导论(24-25学年第2学期)',
+      description: '',
+      dueInHours: 6,
+    })
+    simulator.addCalendarEntry({
+      id: '_blackboard.platform.gradebook2.GradableItem-_4002_1',
+      contentId: '_content_4002',
+      title: '习题课作业 2',
+      calendarName: '高等数学(B)(一)(24-25学年第2学期)',
+      description: '',
+      dueInHours: 8,
+    })
+    const replies = await client.receive('blackboard.check')
+
+    const reminder = replies.find(reply => reply.includes('Bomb Lab'))
+    expect(reminder).to.include('[DDL!] 计算机系统导论：Bomb Lab')
+    expect(reminder).to.include('完成 bits.c 中的全部函数')
+    expect(reminder).to.include('剩余时间：')
+    expect(replies.some(reply => reply.includes('习题课作业 2'))).to.be.false
+  })
+
+  it('does not remind again deadlines recorded before reminder stages existed', async () => {
+    simulator.addCalendarEntry({
+      id: '_blackboard.platform.gradebook2.GradableItem-_4003_1',
+      contentId: '_content_4003',
+      title: 'Attack Lab',
+      calendarName: '计算机系统导论(24-25学年第2学期)',
+      description: '',
+      dueInHours: 10,
+    })
+    const entry = simulator.calendar[simulator.calendar.length - 1]
+
+    // 旧版本在提醒时写入的记录：没有原始截止时间和已提醒的阶段
+    await app.database.create('assignment_record', {
+      userId,
+      assignmentId: entry.id,
+      time: convertTimezone(entry.endDate),
+      course: '计算机系统导论',
+      title: 'Attack Lab',
+      description: '',
+      shouldNotify: true,
+    })
+    await app.database.remove('bb_migration', { name: 'assignment-stages' })
+    await migrateAssignmentStages(app)
+
+    const [record] = await app.database.get('assignment_record', { userId, assignmentId: entry.id })
+    expect(record.notifiedStages).to.equal('24')
+    const replies = await client.receive('blackboard.check')
+    expect(replies.some(reply => reply.includes('Attack Lab'))).to.be.false
+  })
+
+  it('migrates legacy notice categories and filters by event type', async () => {
+    await app.database.set('bb_watcher_config', { userId }, {
+      generalAllowedEvents: '13',
+      specificCourseEvents: JSON.stringify({ '高等数学(b)(一)': '2' }),
+    })
+    await app.database.remove('bb_migration', { name: 'event-type-rules' })
+    await migrateEventRules(app)
+
+    const [bbConfig] = await app.database.get('bb_watcher_config', { userId })
+    expect(bbConfig.generalAllowedEvents).to.equal('*,AS:*,-CO:*')
+    expect(JSON.parse(bbConfig.specificCourseEvents)).to.deep.equal({ '高等数学(b)(一)': 'CO:*,-*' })
+    await client.shouldReply('blackboard.config.info', /需要提醒的通知类型：提醒：全部通知、全部作业通知；屏蔽：全部内容与课件通知/)
+
+    simulator.addNotice({
+      se_id: '_notice_3001',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">期中考试安排</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_3002',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">第四周课件</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'CO:CO_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_3003',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">期中考试安排</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    const replies = await client.receive('blackboard.check')
+
+    // 高等数学只提醒内容与课件，其他课程屏蔽内容与课件
+    expect(replies.filter(reply => reply.includes('期中考试安排'))).to.have.length(1)
+    expect(replies.some(reply => reply.includes('计算机系统导论：期中考试安排'))).to.be.true
+    expect(replies.some(reply => reply.includes('第四周课件'))).to.be.false
+    await client.shouldReply('blackboard.notices -t AN:AN_AVAIL', /共 3 条/)
+
+    await app.database.set('bb_watcher_config', { userId }, { generalAllowedEvents: '*', specificCourseEvents: '{}' })
+  })
+
+  it('applies keyword and regex rules in priority order and records why', async () => {
+    await app.database.set('bb_watcher_config', { userId }, { generalAllowedEvents: '*,-CO:*' })
+    await client.shouldReply('blackboard.rules.add -r (', /无效的正则表达式/)
+    await client.shouldReply('blackboard.rules.add -r (a+)+$', /不能在带有 \*、\+ 等量词的分组后再使用这类量词/)
+    await client.shouldReply(`blackboard.rules.add -r ${'a'.repeat(101)}`, '正则表达式不能超过 100 个字符')
+    await client.shouldReply('blackboard.rules.add -f title -r 期中|考试', /已添加规则（优先级 0）：提醒标题匹配正则/)
+    await client.shouldReply('blackboard.rules.add -x 课件', /已添加规则（优先级 1）：屏蔽标题、内容或课程包含「课件」的通知/)
+
+    simulator.addNotice({
+      se_id: '_notice_3101',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">考试范围</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'CO:CO_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_3102',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">第五周课件</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    const replies = await client.receive('blackboard.check')
+
+    // 规则优先于通知类型设置：被屏蔽的课件类型因为标题匹配而提醒，允许的公告因为包含“课件”而屏蔽
+    expect(replies.some(reply => reply.includes('考试范围'))).to.be.true
+    expect(replies.some(reply => reply.includes('第五周课件'))).to.be.false
+
+    const [muted] = await app.database.get('notice_record', { userId, noticeId: '_notice_3102' })
+    expect(muted.trace).to.equal('匹配过滤规则（优先级 1）：屏蔽标题、内容或课程包含「课件」的通知')
+    await client.shouldReply('blackboard.notices.why 1', /原因：匹配过滤规则/)
+
+    await client.shouldReply('blackboard.rules', /1\. \[优先级 0\] 提醒标题匹配正则 \/期中\|考试\/的通知\n2\. \[优先级 1\]/)
+    await client.shouldReply('blackboard.rules.remove 2', /已删除规则/)
+    await client.shouldReply('blackboard.rules.remove 1', /已删除规则/)
+    await app.database.set('bb_watcher_config', { userId }, { generalAllowedEvents: '*' })
+
+    // 校验加入之前保存的危险规则不再参与匹配，不会拖慢查询
+    const rule: NoticeRule = { id: 1, userId, priority: 0, action: 'include', field: 'all', pattern: '(a+)+$', isRegex: true, createdAt: new Date() }
+    const startTime = Date.now()
+    expect(matchesRule(rule, { title: 'a'.repeat(40) + '!', content: '', course: '', alias: '' })).to.be.false
+    expect(Date.now() - startTime).to.be.below(100)
+  })
+
+  it('changes single settings without overwriting the others', async () => {
+    await client.shouldReply('bb.alias.add 计算机系统导论 ICS', '已设置课程别名：计算机系统导论 → ICS')
+    await client.shouldReply('bb.alias.add 高等数学(B)(一) 高数', '已设置课程别名：高等数学(b)(一) → 高数')
+    await client.shouldReply('bb.alias.remove ICS', '已删除课程 计算机系统导论 的别名')
+    await client.shouldReply('bb.events 计算机系统导论 "-AN:*"', /已设置课程 计算机系统导论 的通知类型：屏蔽：全部公告通知/)
+    await client.shouldReply('bb.events 计算机系统导论 AN:', /格式无效/)
+    await client.shouldReply('bb.mute 高等数学(B)(一)', /已屏蔽课程/)
+    await client.shouldReply('bb.advance 100', /3 到 48 之间/)
+    await client.shouldReply('bb.advance 12', '已设置提前提醒时间为：12 小时')
+    await client.shouldReply('bb.prefix notice [通知]', '已设置通知提醒消息前缀为：[通知]')
+    await client.shouldReply('bb.prefix grade [成绩]', /notice（通知提醒）或 assignment/)
+
+    const [bbConfig] = await app.database.get('bb_watcher_config', { userId })
+    expect(JSON.parse(bbConfig.courseAliases)).to.deep.equal({ '高等数学(b)(一)': '高数' })
+    expect(JSON.parse(bbConfig.specificCourseEvents)).to.deep.equal({ '计算机系统导论': '-AN:*', '高等数学(b)(一)': '-*' })
+    expect(bbConfig).to.include({ calendarAdvanceHours: 12, noticeTitlePrefix: '[通知]', assignmentTitlePrefix: '[DDL!]' })
+
+    await client.shouldReply('bb.unmute 高等数学(B)(一)', /已恢复使用全局通知类型设置/)
+    await client.shouldReply('bb.events 计算机系统导论 default', /已恢复使用全局通知类型设置/)
+    await app.database.set('bb_watcher_config', { userId }, { courseAliases: '{}', calendarAdvanceHours: 24, noticeTitlePrefix: '[教学网]' })
+  })
+
+  it('lists courses with indices that config commands accept', async () => {
+    // 检查通知时已经保存了当前的课程列表
+    const [bbConfig] = await app.database.get('bb_watcher_config', { userId })
+    expect(JSON.parse(bbConfig.courseList)).to.deep.equal([{ id: '_80001_1', name: '高等数学(B)(一)' }, { id: '_80002_1', name: '计算机系统导论' }])
+
+    await client.shouldReply('blackboard.courses', /1\. 高等数学\(B\)\(一\)\n   通知：提醒：全部通知（全局设置）\n2\. 计算机系统导论/)
+
+    await client.shouldReply('bb.alias.add 2 ICS', '已设置课程别名：计算机系统导论 → ICS')
+    await client.shouldReply('bb.mute #1', /已屏蔽课程 高等数学\(b\)\(一\) 的所有通知/)
+    await client.shouldReply('bb.events 3 AS:*', /课程序号无效/)
+
+    const replies = await client.receive('blackboard.courses')
+    expect(replies[0]).to.include('1. 高等数学(B)(一)\n   通知：已屏蔽所有通知')
+    expect(replies[0]).to.include('2. 计算机系统导论（别名：ICS）')
+
+    await client.shouldReply('bb.alias.remove 2', '已删除课程 计算机系统导论 的别名')
+    await client.shouldReply('bb.unmute 1', /已恢复使用全局通知类型设置/)
+  })
+
+  it('matches course settings by course id or a loosely written course name', async () => {
+    await app.database.set('bb_watcher_config', { userId }, {
+      courseAliases: JSON.stringify({ '_80002_1': 'ICS', '线性代数': '线代' }),
+      specificCourseEvents: JSON.stringify({ '高等数学': '-*' }),
+    })
+
+    simulator.addNotice({
+      se_id: '_notice_3201',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">习题课安排</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_3202',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">实验环境说明</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    const replies = await client.receive('blackboard.check')
+
+    // 「高等数学」包含在课程名中，屏蔽设置生效；别名按课程 ID 对应
+    expect(replies.some(reply => reply.includes('习题课安排'))).to.be.false
+    expect(replies.some(reply => reply.includes('ICS：实验环境说明'))).to.be.true
+    await client.shouldReply('bb.unmute 高等数学(B)(一)', '课程 高等数学 已恢复使用全局通知类型设置')
+
+    // 按检查通知时更新的课程列表提示没有对应课程的设置
+    const [info] = await client.receive('blackboard.config.info')
+    expect(info).to.include('没有对应到您当前的任何课程，可能是课程名有误或课程已结束：线性代数')
+    expect(info).not.to.include('课程已结束：_80002_1')
+
+    // 新选的课程在下次检查后即可对应，不需要先使用 blackboard.courses
+    simulator.notices.sv_extras.sx_courses.push({ id: '_80003_1', name: '线性代数(24-25学年第2学期)' })
+    await client.receive('blackboard.check')
+    const [refreshedInfo] = await client.receive('blackboard.config.info')
+    expect(refreshedInfo).not.to.include('没有对应到您当前的任何课程')
+    simulator.notices.sv_extras.sx_courses.pop()
+
+    await app.database.set('bb_watcher_config', { userId }, { courseAliases: '{}', specificCourseEvents: '{}' })
+  })
+
+  it('forwards attachments of opted-in courses as files and downloads each file once', async () => {
+    simulator.files.set('1_1', Buffer.from('datalab handout'))
+    simulator.files.set('2_1', Buffer.alloc(2 * 1024 * 1024))
+    await client.shouldReply('bb.attachments.on 计算机系统导论', /已为课程 计算机系统导论 开启附件转发/)
+    await client.shouldReply('bb.attachments.size 50', /1 到 20 之间的整数/)
+    await client.shouldReply('bb.attachments.size 1', '已设置转发附件的大小上限为：1 MB')
+
+    simulator.addNotice({
+      se_id: '_notice_3301',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">Shell Lab</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      se_itemUri: '/webapps/assignment/uploadAssignment?content_id=_content_3301&course_id=_80002_1',
+      extraAttribs: { event_type: 'AS:AS_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_3302',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">第六周课件</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '<a href="/bbcswebdav/pid-3302-dt-content-rid-2_1/xid-2_1">lecture6.pdf</a><a href="/bbcswebdav/pid-3001-dt-content-rid-1_1/xid-1_1">datalab-handout.tar</a>',
+      extraAttribs: { event_type: 'CO:CO_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_3303',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">第六周讲义</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '<a href="/bbcswebdav/pid-3303-dt-content-rid-1_1/xid-1_1">datalab-handout.tar</a>',
+      extraAttribs: { event_type: 'CO:CO_AVAIL' },
+    })
+
+    const bot = app.bots[0]
+    const sendMessage = bot.sendMessage
+    const sent: string[] = []
+    bot.sendMessage = async (channelId, content) => {
+      sent.push(String(content))
+      return []
+    }
+    await new ScheduleService(app, config).checkSingleUser(userId)
+    bot.sendMessage = sendMessage
+
+    // 作业与课件中的同一附件只下载一次；超过用户上限的附件只发送提示，没有开启转发的课程不发送附件
+    expect(sent).to.have.length(6)
+    expect(sent[0]).to.include('Shell Lab')
+    expect(sent[1]).to.include('title="datalab-handout.tar"')
+    expect(sent[3]).to.equal('附件 lecture6.pdf 没有转发：附件超过了您设置的 1 MB 大小上限，请到教学网下载')
+    expect(sent[4]).to.include('title="datalab-handout.tar"')
+    expect(sent[5]).to.include('第六周讲义')
+    expect(simulator.fileDownloads).to.equal(2)
+
+    await client.shouldReply('bb.attachments.off 计算机系统导论', '已为课程 计算机系统导论 关闭附件转发')
+  })
+
+  it('queues attachments during quiet hours and in digests and sends them on flush', async () => {
+    simulator.files.set('3_1', Buffer.from('malloclab handout'))
+    await client.shouldReply('bb.attachments.on 计算机系统导论', /已为课程 计算机系统导论 开启附件转发/)
+    // 当前时刻前后各一小时为免打扰时段
+    await app.database.set('bb_watcher_config', { userId }, { quietHoursStart: clock(-3600000), quietHoursEnd: clock(3600000) })
+
+    const schedule = new ScheduleService(app, config)
+    const bot = app.bots[0]
+    const sendMessage = bot.sendMessage
+    const sent: string[] = []
+    bot.sendMessage = async (channelId, content) => {
+      sent.push(String(content))
+      return []
+    }
+
+    simulator.addNotice({
+      se_id: '_notice_3304',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">Malloc Lab 讲义</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '<a href="/bbcswebdav/pid-3304-dt-content-rid-3_1/xid-3_1">malloclab-handout.tar</a>',
+      extraAttribs: { event_type: 'CO:CO_AVAIL' },
+    })
+    await schedule.checkSingleUser(userId)
+    expect(sent).to.be.empty
+    const queued = await app.database.get('outbox_message', { userId })
+    expect(queued.map(message => JSON.parse(message.attachments).map(attachment => attachment.name))).to.deep.equal([[], ['malloclab-handout.tar']])
+
+    // 免打扰时段结束后先发送通知，再下载发送附件
+    await app.database.set('bb_watcher_config', { userId }, { quietHoursStart: '', quietHoursEnd: '' })
+    await schedule.flushOutbox()
+    expect(sent).to.have.length(2)
+    expect(sent[0]).to.include('Malloc Lab 讲义')
+    expect(sent[1]).to.include('title="malloclab-handout.tar"')
+
+    // 汇总发送模式下附件在摘要之后发送
+    sent.length = 0
+    await app.database.set('bb_watcher_config', { userId }, { deliveryMode: 'hourly' })
+    simulator.addNotice({
+      se_id: '_notice_3305',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">Malloc Lab 补充说明</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '<a href="/bbcswebdav/pid-3305-dt-content-rid-3_1/xid-3_1">malloclab-handout.tar</a>',
+      extraAttribs: { event_type: 'CO:CO_AVAIL' },
+    })
+    await schedule.checkSingleUser(userId)
+    expect(sent).to.be.empty
+    await app.database.set('digest_item', { userId }, { createdAt: new Date(Date.now() - 3600000) })
+    await schedule.flushDigests()
+    await schedule.flushOutbox()
+    bot.sendMessage = sendMessage
+
+    expect(sent).to.have.length(2)
+    expect(sent[0]).to.include('[教学网提醒汇总]')
+    expect(sent[0]).to.include('Malloc Lab 补充说明')
+    expect(sent[1]).to.include('title="malloclab-handout.tar"')
+    expect(await app.database.get('outbox_message', { userId })).to.be.empty
+
+    await app.database.set('bb_watcher_config', { userId }, { deliveryMode: 'immediate' })
+    await client.shouldReply('bb.attachments.off 计算机系统导论', '已为课程 计算机系统导论 关闭附件转发')
+  })
+
+  it('keeps paragraphs, lists, links and images of notice content', async () => {
+    simulator.addNotice({
+      se_id: '_notice_2101',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">考试须知</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '<p>考试时间：第九周&nbsp;周三</p><ul><li>携带学生证</li><li>闭卷</li></ul><p>考场见<a href="https://example.com/rooms">考场安排</a>&#65292;教学楼平面图：</p><img src="https://example.com/map.png"><script>track()</script>',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_2102',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">课程大纲</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: `<p>${'本课程的详细说明。'.repeat(100)}</p><p>最后一段</p>`,
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    const replies = await client.receive('blackboard.check')
+
+    const exam = replies.find(reply => reply.includes('考试须知'))
+    expect(exam).to.include('考试时间：第九周 周三\n• 携带学生证\n• 闭卷\n考场见考场安排（https://example.com/rooms），教学楼平面图：')
+    expect(exam).to.include('<img src="https://example.com/map.png"/>')
+    expect(exam).not.to.include('track()')
+
+    // 过长的内容在提醒中截断，完整内容可以通过 bb.notices 查看
+    const outline = replies.find(reply => reply.includes('课程大纲'))
+    expect(outline).to.include('…\n内容较长，完整内容请使用 bb.notices 查看')
+    expect(outline).not.to.include('最后一段')
+    const [notices] = await client.receive('bb.notices')
+    expect(notices).to.include('本课程的详细说明。\n最后一段')
+  })
+
+  it('renders reminders with user templates and rejects invalid ones', async () => {
+    await client.shouldReply('bb.template.set notice {course}：{titel}', /未知的占位符 \{titel\}/)
+    await client.shouldReply('bb.template.set notice {title}{?content}{content}', /条件段落 \{\?content\} 没有对应的 \{\/content\}/)
+    await client.shouldReply('bb.template.set ddl {title} {', /没有配对，如需显示花括号请写成 \{\{ 或 \}\}/)
+    await client.shouldReply('bb.template.set notice 【{alias}】{title}{!content}（无内容）{/content}{?content}\\n{content}{/content}\\n类型：{event}', /已设置通知提醒模板/)
+    await client.shouldReply('bb.template.preview notice', /^预览（使用通知「.+」）：\n【.+】/)
+    await client.shouldReply('bb.template.preview assignment {title} 还剩 {remaining}', /^预览（使用日程「.+」）：\n.+ 还剩 /)
+
+    simulator.addNotice({
+      se_id: '_notice_2201',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">期末安排</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    const replies = await client.receive('blackboard.check')
+    expect(replies.some(reply => /^【.+】期末安排（无内容）\n类型：\S+$/.test(reply))).to.be.true
+
+    await client.shouldReply('bb.template.reset notice', '已恢复默认的通知提醒模板')
+  })
+
+  it('retries requests while Blackboard is temporarily unavailable', async () => {
+    simulator.unavailable = 2
+    await client.shouldReply('blackboard.check', '新通知和日程 DDL 已查询完成！')
+
+    expect(simulator.unavailable).to.equal(0)
+  })
+
+  it('reports when Blackboard stays unavailable', async () => {
+    simulator.unavailable = Infinity
+    const replies = await client.receive('blackboard.check')
+    simulator.unavailable = 0
+
+    expect(replies.some(reply => reply.includes('处理通知时发生错误：教学网暂时不可用（HTTP 503）'))).to.be.true
+    expect(replies.some(reply => reply.includes('处理日程时发生错误：教学网暂时不可用（HTTP 503）'))).to.be.true
+  })
+
+  it('suspends scheduled checks after repeated login failures', async () => {
+    const schedule = new ScheduleService(app, config)
+    const messages: string[] = []
+    const bot = app.bots[0]
+    const sendMessage = bot.sendMessage
+    // 绑定时记录了投递路线，定时提醒会发送到绑定时所在的私聊频道
+    bot.sendMessage = async (channelId, content, guildId, options) => {
+      if (channelId !== 'private:10001' || options?.session) return sendMessage.call(bot, channelId, content, guildId, options)
+      messages.push(String(content))
+      return []
+    }
+
+    // 用户在 IAAA 上修改了密码，保存的会话也已过期
+    simulator.password = 'changed-password'
+    simulator.expireSessions()
+
+    await schedule.checkSingleUser(userId)
+    expect(messages).to.have.length(1)
+    expect(messages[0]).to.include('iaaa.bind')
+    await client.shouldReply('iaaa.info', /连续 1 次登录失败/)
+
+    // 达到阈值后暂停，不再发送提醒，也不再尝试登录
+    await schedule.checkSingleUser(userId)
+    await client.shouldReply('iaaa.info', /已暂停自动查询/)
+    const attempts = simulator.loginAttempts
+    await schedule.checkSingleUser(userId)
+    expect(simulator.loginAttempts).to.equal(attempts)
+    expect(messages).to.have.length(1)
+
+    // 重新绑定后恢复
+    await client.shouldReply(`iaaa.bind ${simulator.username} ${simulator.password}`, /已恢复为您自动查询/)
+    await client.shouldReply('iaaa.info', /账号状态：正常/)
+    bot.sendMessage = sendMessage
+  })
+
+  it('skips a scheduled run while the previous one is still running', async () => {
+    const schedule = new ScheduleService(app, config)
+    await app.database.set('iaaa_user', { userId }, { nextCheckAt: new Date(Date.now() - 1000) })
+    const [first, second] = await Promise.all([schedule.checkDueUsers(), schedule.checkDueUsers()])
+
+    expect(first).to.include({ success: 1, failure: 0, skipped: 0 })
+    expect(second).to.be.null
+  })
+
+  it('only checks users whose next check is due', async () => {
+    const schedule = new ScheduleService(app, config)
+
+    // 上一次查询已经为用户安排了下一次检查
+    expect(await schedule.checkDueUsers()).to.include({ success: 0, failure: 0, skipped: 0 })
+
+    await app.database.set('iaaa_user', { userId }, { nextCheckAt: new Date(Date.now() - 1000) })
+    expect(await schedule.checkDueUsers()).to.include({ success: 1, failure: 0, skipped: 0 })
+
+    const [iaaaUser] = await app.database.get('iaaa_user', { userId })
+    expect(iaaaUser.nextCheckAt.getTime()).to.be.within(Date.now() + 29 * 60000, Date.now() + 36 * 60000)
+  })
+
+  it('forwards matching reminders to a subscribed group channel', async () => {
+    const groupClient = app.mock.client('10001', 'group1')
+    await groupClient.shouldReply('blackboard.subscribe -c 计算机 -t AS:*', /已将您的教学网提醒转发到本群/)
+    await client.shouldReply('blackboard.rules.add -x -f title 勘误', /已添加规则/)
+
+    const forwarded: string[] = []
+    const bot = app.bots[0]
+    const sendMessage = bot.sendMessage
+    bot.sendMessage = async (channelId, content, guildId, options) => {
+      if (channelId !== 'group1') return sendMessage.call(bot, channelId, content, guildId, options)
+      forwarded.push(String(content))
+      return []
+    }
+
+    simulator.addNotice({
+      se_id: '_notice_2003',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">Cache Lab</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '<p>Cache Lab 已发布</p>',
+      extraAttribs: { event_type: 'AS:AS_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_2004',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">习题课作业 3</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AS:AS_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_2008',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">Cache Lab 勘误</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AS:AS_AVAIL' },
+    })
+    simulator.addNotice({
+      se_id: '_notice_2005',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">第三周课件</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'CO:CO_AVAIL' },
+    })
+    const replies = await client.receive('blackboard.check')
+    bot.sendMessage = sendMessage
+
+    // 私聊仍然按原来的设置收到全部提醒，群聊只收到符合过滤条件的提醒；用户屏蔽的通知两边都不发送
+    expect(replies.some(reply => reply.includes('习题课作业 3'))).to.be.true
+    expect(replies.some(reply => reply.includes('勘误'))).to.be.false
+    expect(forwarded).to.have.length(1)
+    expect(forwarded[0]).to.include('计算机系统导论：Cache Lab')
+    expect(forwarded[0]).not.to.include('勘误')
+    await client.shouldReply('blackboard.rules.remove 1', /已删除规则/)
+
+    await client.shouldReply('blackboard.subscriptions', /1\. mock 群聊 group1：提醒：全部作业通知（仅限课程：计算机）/)
+  })
+
+  it('reports newly posted and changed grades without showing scores in groups', async () => {
+    simulator.grades['_80002_1'] = [
+      { id: '_5001_1', name: 'Data Lab', score: '85', pointsPossible: '100' },
+      { id: '_5002_1', name: 'Bomb Lab', score: '-', pointsPossible: '100' },
+    ]
+    await app.database.set('bb_watcher_config', { userId }, { notifyGrade: true })
+    let replies = await client.receive('blackboard.check')
+    expect(replies.some(reply => reply.includes('同步了 1 项已有成绩'))).to.be.true
+    expect(replies.some(reply => reply.includes('Data Lab'))).to.be.false
+
+    const groupClient = app.mock.client('10001', 'group2')
+    await groupClient.shouldReply('blackboard.subscribe -t GB:*', /已将您的教学网提醒转发到本群/)
+    const forwarded: string[] = []
+    const bot = app.bots[0]
+    const sendMessage = bot.sendMessage
+    bot.sendMessage = async (channelId, content, guildId, options) => {
+      if (channelId !== 'group2') return sendMessage.call(bot, channelId, content, guildId, options)
+      forwarded.push(String(content))
+      return []
+    }
+
+    simulator.grades['_80002_1'] = [
+      { id: '_5001_1', name: 'Data Lab', score: '90', pointsPossible: '100', feedback: '补交后重新评分' },
+      { id: '_5002_1', name: 'Bomb Lab', score: '70', pointsPossible: '100' },
+    ]
+    replies = await client.receive('blackboard.check')
+    bot.sendMessage = sendMessage
+
+    expect(replies).to.include('[成绩] 计算机系统导论：Data Lab\n成绩有更新：85 / 100 → 90 / 100\n评语：补交后重新评分')
+    expect(replies).to.include('[成绩] 计算机系统导论：Bomb Lab\n成绩：70 / 100')
+    expect(forwarded).to.deep.equal([
+      '[成绩] 计算机系统导论：Data Lab\n成绩有更新，分数只在私聊中发送',
+      '[成绩] 计算机系统导论：Bomb Lab\n成绩已公布，分数只在私聊中发送',
+    ])
+
+    await groupClient.shouldReply('blackboard.unsubscribe', /取消/)
+
+    // 没有变化的成绩不再重复提醒；新选的课程已有的成绩只同步，不提醒
+    simulator.notices.sv_extras.sx_courses.push({ id: '_80004_1', name: '概率统计(24-25学年第2学期)' })
+    simulator.grades['_80004_1'] = [{ id: '_5101_1', name: '第一次作业', score: '95', pointsPossible: '100' }]
+    const noticeRequests = simulator.noticeRequests
+    replies = await client.receive('blackboard.check')
+    expect(replies.some(reply => reply.includes('[成绩]'))).to.be.false
+    // 成绩处理器使用查询通知时得到的课程列表，不再重复获取通知数据
+    expect(simulator.noticeRequests).to.equal(noticeRequests + 1)
+
+    // 新课程之后公布的成绩照常提醒
+    simulator.grades['_80004_1'].push({ id: '_5102_1', name: '第二次作业', score: '88', pointsPossible: '100' })
+    replies = await client.receive('blackboard.check')
+    expect(replies).to.include('[成绩] 概率统计：第二次作业\n成绩：88 / 100')
+    expect(replies.some(reply => reply.includes('第一次作业'))).to.be.false
+    simulator.notices.sv_extras.sx_courses.pop()
+    await app.database.set('bb_watcher_config', { userId }, { notifyGrade: false })
+  })
+
+  it('delivers scheduled reminders along the recorded route', async () => {
+    const schedule = new ScheduleService(app, config)
+    const groupClient = app.mock.client('10001', 'group1')
+    const bot = app.bots[0]
+    const sendMessage = bot.sendMessage
+    const sendPrivateMessage = bot.sendPrivateMessage
+    const channels: string[] = []
+    const direct: string[] = []
+    bot.sendMessage = async (channelId, content, guildId, options) => {
+      if (options?.session) return sendMessage.call(bot, channelId, content, guildId, options)
+      channels.push(channelId)
+      return []
+    }
+    bot.sendPrivateMessage = async (userId) => {
+      direct.push(userId)
+      return []
+    }
+
+    // 在群聊中切换投递路线后，提醒通过私信接口发送，不会发到群里
+    await groupClient.shouldReply('blackboard.deliver', /私信发送给您，不会发到本群/)
+    await client.shouldReply('blackboard.subscriptions', /发送到 mock 平台机器人 \S+ → 用户 10001/)
+    simulator.addNotice({
+      se_id: '_notice_2006',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">习题课作业 4</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AS:AS_AVAIL' },
+    })
+    await schedule.checkSingleUser(userId)
+    expect(direct).to.deep.equal(['10001'])
+    expect(channels).to.be.empty
+
+    // 回到私聊中切换后，提醒发送到该私聊频道
+    await client.shouldReply('blackboard.deliver', /之后的私聊提醒将发送到这里/)
+    simulator.addNotice({
+      se_id: '_notice_2007',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">习题课作业 5</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AS:AS_AVAIL' },
+    })
+    await schedule.checkSingleUser(userId)
+    bot.sendMessage = sendMessage
+    bot.sendPrivateMessage = sendPrivateMessage
+
+    expect(direct).to.have.length(1)
+    expect(channels).to.deep.equal(['private:10001'])
+  })
+})
+
+describeWatcher('digest delivery', { check: true, capture: true }, env => {
+  it('collects reminders in hourly mode and sends them as one escaped digest', async () => {
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { deliveryMode: 'hourly' })
+    env.simulator.addNotice({
+      se_id: '_notice_5001',
+      se_courseId: '_80002_1',
+      se_context: '<a href="#">Cache Lab & Attack Lab</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '<p>&lt;b&gt; 标签不会被解析</p>',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    env.simulator.addNotice({
+      se_id: '_notice_5002',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">第二周习题</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    await env.schedule.checkSingleUser(env.userId)
+    expect(env.sent).to.be.empty
+    expect(await env.app.database.get('digest_item', { userId: env.userId })).to.have.length(2)
+
+    // 本小时加入的条目要到下一个整点才发送
+    await env.schedule.flushDigests()
+    expect(env.sent).to.be.empty
+
+    await env.app.database.set('digest_item', { userId: env.userId }, { createdAt: new Date(Date.now() - 3600000) })
+    await env.schedule.flushDigests()
+    expect(env.sent).to.have.length(1)
+    expect(env.sent[0]).to.include('[教学网提醒汇总]')
+    expect(env.sent[0]).to.include('新通知（2 条）')
+    expect(env.sent[0]).to.include('【计算机系统导论】\n- Cache Lab &amp; Attack Lab')
+    expect(env.sent[0]).to.include('&lt;b&gt; 标签不会被解析')
+    expect(env.sent[0]).to.include('【高等数学(B)(一)】\n- 第二周习题')
+    expect(await env.app.database.get('digest_item', { userId: env.userId })).to.be.empty
+  })
+
+  it('sends the daily digest only after the configured time', async () => {
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { deliveryMode: 'daily', digestTime: clock(-3600000) })
+    env.simulator.addNotice({
+      se_id: '_notice_5003',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">第三周习题</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    await env.schedule.checkSingleUser(env.userId)
+
+    // 在今天的发送时刻之后加入的条目留到明天发送
+    await env.schedule.flushDigests()
+    expect(env.sent).to.be.empty
+
+    await env.app.database.set('digest_item', { userId: env.userId }, { createdAt: new Date(Date.now() - 2 * 3600000) })
+    await env.schedule.flushDigests()
+    expect(env.sent).to.have.length(1)
+    expect(env.sent[0]).to.include('[教学网每日摘要]')
+    expect(env.sent[0]).to.include('第三周习题')
+  })
+
+  it('sends collected items right away after switching back to immediate delivery', async () => {
+    env.simulator.addNotice({
+      se_id: '_notice_5004',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">第四周习题</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    await env.schedule.checkSingleUser(env.userId)
+    expect(env.sent).to.be.empty
+
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { deliveryMode: 'immediate' })
+    await env.schedule.flushDigests()
+    expect(env.sent).to.have.length(1)
+    expect(env.sent[0]).to.include('第四周习题')
+  })
+})
+
+describeWatcher('quiet hours', { check: true, capture: true }, env => {
+  beforeEach(async () => {
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { quietHoursStart: '', quietHoursEnd: '' })
+  })
+
+  it('holds reminders during quiet hours and sends them once the period ends', async () => {
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { quietHoursStart: clock(-3600000), quietHoursEnd: clock(3600000) })
+    env.simulator.addNotice({
+      se_id: '_notice_6001',
+      se_courseId: '_80001_1',
+      se_context: '<a href="#">晚间补课通知</a> -<span class="inlineContextMenu">打开</span>',
+      se_details: '',
+      extraAttribs: { event_type: 'AN:AN_AVAIL' },
+    })
+    await env.schedule.checkSingleUser(env.userId)
+    expect(env.sent).to.be.empty
+    expect(await env.app.database.get('outbox_message', { userId: env.userId })).to.have.length(1)
+
+    // 仍在免打扰时段内时不发送
+    await env.schedule.flushOutbox()
+    expect(env.sent).to.be.empty
+
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { quietHoursStart: clock(-3 * 3600000), quietHoursEnd: clock(-2 * 3600000) })
+    await env.schedule.flushOutbox()
+    expect(env.sent).to.have.length(1)
+    expect(env.sent[0]).to.include('晚间补课通知')
+    expect(await env.app.database.get('outbox_message', { userId: env.userId })).to.be.empty
+  })
+
+  it('holds file messages during quiet hours together with their content', async () => {
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { quietHoursStart: clock(-3600000), quietHoursEnd: clock(3600000) })
+    const [bbConfig] = await env.app.database.get('bb_watcher_config', { userId: env.userId })
+    const session = (env.schedule as any).createMockSession(env.userId, bbConfig)
+    await session.send(h.file(Buffer.from('malloclab handout'), 'text/plain', { title: 'malloclab.txt' }))
+    expect(env.sent).to.be.empty
+    expect(await env.app.database.get('outbox_message', { userId: env.userId })).to.have.length(1)
+
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { quietHoursStart: clock(-3 * 3600000), quietHoursEnd: clock(-2 * 3600000) })
+    await env.schedule.flushOutbox()
+    expect(env.sent).to.have.length(1)
+    const [file] = h.parse(env.sent[0])
+    expect(file.type).to.equal('file')
+    expect(file.attrs.title).to.equal('malloclab.txt')
+    expect(Buffer.from(file.attrs.src.replace(/^data:[^,]*,/, ''), 'base64').toString('utf8')).to.equal('malloclab handout')
+  })
+
+  it('reminds deadlines whose stage falls in the coming quiet hours before they start', async () => {
+    // 免打扰时段在下一次定时查询之前开始
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { quietHoursStart: clock(10 * 60000), quietHoursEnd: clock(8 * 3600000) })
+    env.simulator.addCalendarEntry({
+      id: '_blackboard.platform.gradebook2.GradableItem-_6001_1',
+      contentId: '_content_6001',
+      title: 'Proxy Lab',
+      calendarName: '计算机系统导论(24-25学年第2学期)',
+      description: '',
+      dueInHours: 28,
+    })
+    env.simulator.addCalendarEntry({
+      id: '_blackboard.platform.gradebook2.GradableItem-_6002_1',
+      contentId: '_content_6002',
+      title: 'Final Project',
+      calendarName: '计算机系统导论(24-25学年第2学期)',
+      description: '',
+      dueInHours: 40,
+    })
+    await env.schedule.checkSingleUser(env.userId)
+
+    // 截止前 24 小时的提醒落在免打扰时段内，提前到时段开始前发送；落在时段之后的照常等待
+    expect(env.sent.some(message => message.includes('Proxy Lab'))).to.be.true
+    expect(env.sent.some(message => message.includes('Final Project'))).to.be.false
+  })
+})
+
+describeWatcher('blackboard.ddl', {}, env => {
+  before(() => {
+    env.simulator.addCalendarEntry({
+      id: '_blackboard.platform.gradebook2.GradableItem-_7001_1',
+      contentId: '_content_7001',
+      title: '课程调查问卷',
+      calendarName: '',
+      description: '',
+      dueInHours: 20,
+    })
+    env.simulator.submitted.add('_content_3002')
+  })
+
+  it('lists deadlines within the requested days in due order with submission status', async () => {
+    const [text] = await env.client.receive('blackboard.ddl')
+
+    expect(text).to.match(/^未来 7 天内的日程（共 3 项）：/)
+    expect(text).to.include('\n\n1. 计算机系统导论：Data Lab\n   截止时间：')
+    expect(text).to.include('\n   状态：未提交\n\n2. 高等数学(B)(一)：习题课作业 1\n')
+    expect(text).to.include('\n   状态：已提交\n\n3. 课程调查问卷\n')
+    expect(text).not.to.include('体测')
+  })
+
+  it('widens the range by days and shows personal events', async () => {
+    const [text] = await env.client.receive('blackboard.ddl 14')
+
+    expect(text).to.match(/^未来 14 天内的日程（共 4 项）：/)
+    expect(text).to.include('\n\n4. 体测：800 米\n')
+    expect(text).to.include('状态：个人事件')
+  })
+
+  it('uses course aliases', async () => {
+    await env.client.shouldReply('bb.alias.add 计算机系统导论 ICS', '已设置课程别名：计算机系统导论 → ICS')
+    const [text] = await env.client.receive('blackboard.ddl 1')
+
+    expect(text).to.include('1. ICS：Data Lab')
+    await env.client.shouldReply('bb.alias.remove ICS', '已删除课程 计算机系统导论 的别名')
+  })
+
+  it('rejects an invalid number of days and reports an empty range', async () => {
+    await env.client.shouldReply('blackboard.ddl 0', '天数必须是 1 到 30 之间的整数，格式如 blackboard.ddl 7')
+    await env.client.shouldReply('blackboard.ddl 31', '天数必须是 1 到 30 之间的整数，格式如 blackboard.ddl 7')
+
+    const calendar = env.simulator.calendar
+    env.simulator.calendar = []
+    await env.client.shouldReply('blackboard.ddl', '未来 7 天内没有需要完成的日程')
+    env.simulator.calendar = calendar
+  })
+})
+
+describeWatcher('notice history', { check: true }, env => {
+  before(async () => {
+    // 首次查询同步了 3 月 1 日与 2 日的两条已有通知，之后每天发布一条新通知（东八区 10:00）
+    const notices = [
+      ['_notice_8001', '_80001_1', '期中考试安排', '<p>期中考试在 4 月 10 日</p>', 'AN:AN_AVAIL'],
+      ['_notice_8002', '_80002_1', 'Bomb Lab', '', 'AS:AS_AVAIL'],
+      ['_notice_8003', '_80002_1', 'Lecture 2 课件', '', 'CO:CO_AVAIL'],
+      ['_notice_8004', '_80001_1', '习题课调整', '<p>本周习题课改到周四</p>', 'AN:AN_AVAIL'],
+      ['_notice_8005', '_80002_1', '期中复习资料', '<p>Midterm review slides</p>', 'CO:CO_AVAIL'],
+    ]
+    notices.forEach(([id, courseId, title, details, event], index) => {
+      env.simulator.addNotice({
+        se_id: id,
+        se_timestamp: Date.UTC(2025, 2, 3 + index, 2),
+        se_courseId: courseId,
+        se_context: `<a href="#">${title}</a> -<span class="inlineContextMenu">打开</span>`,
+        se_details: details,
+        extraAttribs: { event_type: event },
+      })
+    })
+    await env.client.receive('blackboard.check')
+  })
+
+  it('lists notices newest first in pages of five', async () => {
+    const [first] = await env.client.receive('blackboard.notices')
+    expect(first).to.match(/^符合条件的通知共 7 条（第 1\/2 页）：\n\n1\. 计算机系统导论：期中复习资料\n/)
+    expect(first).to.include('\n\n5. 高等数学(B)(一)：期中考试安排\n')
+    expect(first).to.match(/使用 -p 2 查看下一页$/)
+
+    const [second] = await env.client.receive('blackboard.notices -p 2')
+    expect(second).to.match(/^符合条件的通知共 7 条（第 2\/2 页）：\n\n6\. 计算机系统导论：Lecture 1 课件\n/)
+    expect(second).to.include('\n\n7. 高等数学(B)(一)：第一周课程安排\n')
+    expect(second).not.to.include('查看下一页')
+
+    await env.client.shouldReply('blackboard.notices -p 3', '符合条件的通知共 7 条，只有 2 页')
+  })
+
+  it('filters notices by course, alias, event type and date range', async () => {
+    await env.client.shouldReply('blackboard.notices -c 高等数学', /^符合条件的通知共 3 条/)
+    await env.client.shouldReply('bb.alias.add 计算机系统导论 ICS', '已设置课程别名：计算机系统导论 → ICS')
+    await env.client.shouldReply('blackboard.notices -c ics', /^符合条件的通知共 4 条（第 1\/1 页）：\n\n1\. ICS：期中复习资料/)
+    await env.client.shouldReply('bb.alias.remove ICS', '已删除课程 计算机系统导论 的别名')
+
+    await env.client.shouldReply('blackboard.notices -t AS:*', /^符合条件的通知共 1 条（第 1\/1 页）：\n\n1\. 计算机系统导论：Bomb Lab\n发布时间：2025\/3\/4 10:00:00（新作业发布）$/)
+    await env.client.shouldReply('blackboard.notices -t CO:*,AN:*', /^符合条件的通知共 6 条/)
+    await env.client.shouldReply('blackboard.notices -t foo', '通知事件类型格式无效，请使用 blackboard.config.types 查看可以筛选的事件类型')
+
+    // 结束日期当天发布的通知也包含在内
+    await env.client.shouldReply('blackboard.notices -f 2025-03-04 -e 2025-03-05', /^符合条件的通知共 2 条（第 1\/1 页）：\n\n1\. 计算机系统导论：Lecture 2 课件/)
+    await env.client.shouldReply('blackboard.notices -c 高等数学 -f 2025-03-04', /^符合条件的通知共 1 条（第 1\/1 页）：\n\n1\. 高等数学\(B\)\(一\)：习题课调整\n.*\n本周习题课改到周四$/)
+    await env.client.shouldReply('blackboard.notices -f 3月1日', '起始日期格式无效，格式如 2025-03-01')
+    await env.client.shouldReply('blackboard.notices -e 2025/3/x', '结束日期格式无效，格式如 2025-03-31')
+    await env.client.shouldReply('blackboard.notices -c 线性代数', '没有找到符合条件的通知')
+  })
+
+  it('searches titles and content case-insensitively', async () => {
+    await env.client.shouldReply('blackboard.search 期中', /^包含 "期中" 的通知共 2 条（第 1\/1 页）：\n\n1\. 计算机系统导论：期中复习资料/)
+    await env.client.shouldReply('blackboard.search MIDTERM', /^包含 "MIDTERM" 的通知共 1 条.*\n\n1\. 计算机系统导论：期中复习资料\n.*\nMidterm review slides$/)
+    await env.client.shouldReply('blackboard.search 周四', /\n\n1\. 高等数学\(B\)\(一\)：习题课调整\n/)
+    await env.client.shouldReply('blackboard.search -p 2 期中', '包含 "期中" 的通知共 2 条，只有 1 页')
+    await env.client.shouldReply('blackboard.search 线性代数', '没有找到包含 "线性代数" 的通知')
+  })
+})
+
+describeWatcher('iCalendar export', {
+  config: { icsFeed: true },
+  setup: app => app.plugin(server, { host: '127.0.0.1', port: 15140, maxPort: 15240 }),
+}, env => {
+  /**
+   * 读取 blackboard.ics 回复的日历文件内容
+   */
+  async function exportICS(): Promise<string> {
+    const [reply] = await env.client.receive('blackboard.ics')
+    const [file] = h.parse(reply)
+    expect(file.type).to.equal('file')
+    expect(file.attrs.title).to.equal('blackboard.ics')
+    return Buffer.from(file.attrs.src.replace(/^(data:[^,]*,|base64:\/\/)/, ''), 'base64').toString('utf8')
+  }
+
+  /**
+   * 取出订阅链接回复中的网址
+   */
+  async function getFeedUrl(command: string): Promise<string> {
+    const [reply] = await env.client.receive(command)
+    return reply.match(/https?:\/\/\S+\.ics/)[0]
+  }
+
+  it('asks to wait for the first check before any deadline is recorded', async () => {
+    await env.client.shouldReply('blackboard.ics', '还没有记录到任何日程，请确认已启用日程提醒，并在下一次查询后再试')
+  })
+
+  it('exports recorded deadlines with an alarm for every reminder stage', async () => {
+    await env.client.receive('blackboard.check')
+    await env.client.shouldReply('bb.alias.add 计算机系统导论 ICS, CSAPP', /已设置课程别名/)
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { calendarReminderStages: '2' })
+    const ics = await exportICS()
+
+    expect(ics).to.match(/^BEGIN:VCALENDAR\r\n/)
+    expect(ics).to.match(/END:VCALENDAR\r\n$/)
+    expect(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).to.be.true
+    expect(ics.match(/BEGIN:VEVENT/g)).to.have.length(3)
+    // 别名中的逗号按 RFC 5545 转义，个人事件不显示课程
+    expect(ics).to.include('SUMMARY:ICS\\, CSAPP：Data Lab\r\n')
+    expect(ics).to.include('SUMMARY:体测：800 米\r\n')
+    expect(ics).to.include('DESCRIPTION:五四操场\r\n')
+    expect(ics.match(/TRIGGER:-PT1440M/g)).to.have.length(3)
+    expect(ics.match(/TRIGGER:-PT120M/g)).to.have.length(3)
+
+    await env.client.shouldReply('bb.alias.remove ICS, CSAPP', /已删除课程 计算机系统导论 的别名/)
+  })
+
+  it('serves the feed by a secret token that can be reset', async () => {
+    const url = await getFeedUrl('blackboard.ics -u')
+    expect(await getFeedUrl('blackboard.ics -u')).to.equal(url)
+
+    const response = await fetch(url)
+    expect(response.status).to.equal(200)
+    expect(response.headers.get('content-type')).to.include('text/calendar')
+    expect(await response.text()).to.include('SUMMARY:计算机系统导论：Data Lab')
+
+    // 重新生成后旧链接失效
+    const newUrl = await getFeedUrl('blackboard.ics -r')
+    expect(newUrl).not.to.equal(url)
+    expect((await fetch(url)).status).to.equal(404)
+    expect((await fetch(newUrl)).status).to.equal(200)
+  })
+})
+
+describeWatcher('unified user id migration', {}, env => {
+  let aid: string
+
+  /**
+   * 创建旧版本以平台账号 ID 保存的认证信息、配置与通知记录
+   */
+  async function createLegacyUser(pid: string, username: string, noticeIds: string[], updatedAt: number = Date.now()) {
+    await env.app.database.upsert('iaaa_user', [{ userId: pid, username, password: '', createdAt: new Date(updatedAt), updatedAt: new Date(updatedAt) }], ['userId'])
+    await env.app.database.upsert('bb_watcher_config', [{ userId: pid, createdAt: new Date(updatedAt), updatedAt: new Date(updatedAt) }], ['userId'])
+    for (const noticeId of noticeIds) {
+      await env.app.database.create('notice_record', {
+        userId: pid, noticeId, time: '', course: '', title: noticeId, content: '', event: '', shouldNotify: false,
+        createdAt: new Date(), updatedAt: new Date(),
+      })
+    }
+  }
+
+  before(async () => {
+    // 迁移在升级时执行，那时所有数据都以平台账号 ID 保存，先清空测试用户绑定时创建的数据
+    for (const table of ['iaaa_user', 'bb_watcher_config', 'notice_record', 'assignment_record', 'bb_migration'] as const) {
+      await env.app.database.remove(table, {})
+    }
+
+    await env.app.mock.initUser('10002', 1)
+    const [binding] = await env.app.database.get('binding', { platform: 'mock', pid: '10002' })
+    aid = String(binding.aid)
+    // 同一用户在另一个平台上关联的账号，之前分别绑定过
+    await env.app.database.create('binding', { platform: 'telegram', pid: 'tg-10002', aid: binding.aid, bid: binding.aid })
+    await createLegacyUser('10002', '2100054321', ['_notice_9001', '_notice_10002'])
+    await createLegacyUser('tg-10002', '2100099999', ['_notice_9001', '_notice_tg-10002'], Date.now() - 60000)
+
+    // 没有关联任何 Koishi 用户的平台账号，其中一个的 ID 恰好与上面用户的统一 ID 相同
+    await createLegacyUser('unknown-20001', '2100011111', ['_notice_20001'])
+    await createLegacyUser(aid, '2100022222', ['_notice_20002'])
+
+    await migrateToUnifiedUserIds(env.app)
+  })
+
+  it('moves data keyed by platform user ids to the unified user', async () => {
+    // 保留最近更新的绑定信息，通知记录合并去重，旧的平台账号 ID 不再出现
+    const iaaaUsers = await env.app.database.get('iaaa_user', { userId: aid })
+    expect(iaaaUsers.map(iaaaUser => iaaaUser.username)).to.deep.equal(['2100054321'])
+    const records = await env.app.database.get('notice_record', { userId: aid })
+    expect(records.map(record => record.noticeId).sort()).to.deep.equal(['_notice_10002', '_notice_9001', '_notice_tg-10002'])
+    expect(await env.app.database.get('iaaa_user', { userId: ['10002', 'tg-10002'] })).to.be.empty
+
+    // 旧配置继续向原来的平台账号发送提醒
+    const [bbConfig] = await env.app.database.get('bb_watcher_config', { userId: aid })
+    expect(bbConfig).to.include({ deliveryPlatform: 'mock', deliveryUserId: '10002' })
+    await env.app.mock.client('10002').shouldReply('iaaa.info', /2100054321/)
+  })
+
+  it('quarantines data of platform ids without a unique Koishi user and skips them when scheduling', async () => {
+    const quarantined = await env.app.database.get('iaaa_user', { userId: ['legacy:unknown-20001', `legacy:${aid}`] })
+    expect(quarantined.map(iaaaUser => iaaaUser.username).sort()).to.deep.equal(['2100011111', '2100022222'])
+    expect(await env.app.database.get('notice_record', { userId: `legacy:${aid}` })).to.have.length(1)
+    expect(await env.app.database.get('iaaa_user', { userId: 'unknown-20001' })).to.be.empty
+
+    // 只有迁移到统一用户的数据参与定时查询
+    await env.app.database.set('iaaa_user', { userId: aid }, { nextCheckAt: new Date(Date.now() + 3600000) })
+    expect(await env.schedule.checkDueUsers()).to.include({ success: 0, failure: 0, skipped: 0 })
+  })
+
+  it('runs only once', async () => {
+    await migrateToUnifiedUserIds(env.app)
+    expect(await env.app.database.get('iaaa_user', { userId: aid })).to.have.length(1)
+    expect(await env.app.database.get('bb_migration', { name: 'unified-user-id' })).to.have.length(1)
+  })
+})
+
+describeWatcher('deadline changes', { check: true, capture: true }, env => {
+  const id = '_blackboard.platform.gradebook2.GradableItem-_9001_1'
+
+  /**
+   * 读取测试日程的记录
+   */
+  async function getRecord() {
+    const [record] = await env.app.database.get('assignment_record', { userId: env.userId, assignmentId: id })
+    return record
+  }
+
+  before(async () => {
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { calendarReminderStages: '2' })
+    env.simulator.addCalendarEntry({
+      id,
+      contentId: '_content_9001',
+      title: 'Shell Lab',
+      calendarName: '计算机系统导论(24-25学年第2学期)',
+      description: '',
+      dueInHours: 20,
+    })
+    await env.schedule.checkSingleUser(env.userId)
+  })
+
+  it('sends one message when a deadline is extended and reschedules its reminder stages', async () => {
+    expect((await getRecord()).notifiedStages).to.equal('24')
+
+    env.simulator.updateCalendarEntry(id, { dueInHours: 30, title: 'Shell Lab（延期）' })
+    await env.schedule.checkSingleUser(env.userId)
+    expect(env.sent).to.have.length(1)
+    expect(env.sent[0]).to.include('计算机系统导论：Shell Lab（延期）\nDDL 已延期\n原截止时间：')
+    // 新的截止时间下还没有到达任何阶段，之后按新的时间重新提醒
+    expect(await getRecord()).to.include({ title: 'Shell Lab（延期）', notifiedStages: '' })
+
+    await env.schedule.checkSingleUser(env.userId)
+    expect(env.sent).to.have.length(1)
+  })
+
+  it('sends one message when a deadline is moved earlier and marks the reached stages', async () => {
+    env.simulator.updateCalendarEntry(id, { dueInHours: 1.5, title: 'Shell Lab（提前）' })
+    await env.schedule.checkSingleUser(env.userId)
+    expect(env.sent).to.have.length(1)
+    expect(env.sent[0]).to.include('计算机系统导论：Shell Lab（提前）\nDDL 已提前\n原截止时间：')
+    expect(await getRecord()).to.include({ title: 'Shell Lab（提前）', notifiedStages: '24,2' })
+
+    await env.schedule.checkSingleUser(env.userId)
+    expect(env.sent).to.have.length(1)
+  })
+})
+
+describeWatcher('request limits', { config: { requestsPerSecond: 5, concurrency: 2 } }, env => {
+  it('spaces the requests of manual commands by the shared rate limit', async () => {
+    env.simulator.requests = []
+    await env.client.receive('blackboard.check')
+    await env.client.receive('blackboard.courses')
+
+    // 跟随重定向发出的请求与原请求算作一次
+    const times = env.simulator.requests
+      .filter(request => request.path !== '/webapps/assignment/uploadAssignment')
+      .map(request => request.time)
+    expect(times.length).to.be.above(4)
+    for (let i = 1; i < times.length; i++) {
+      // 每秒 5 个请求，相邻请求之间至少间隔 200 毫秒（允许计时器的少量误差）
+      expect(times[i] - times[i - 1]).to.be.at.least(190)
+    }
+  })
+
+  it('checks at most concurrency users at the same time', async () => {
+    const userIds = ['pool-1', 'pool-2', 'pool-3', 'pool-4', 'pool-5']
+    for (const userId of userIds) {
+      await env.app.database.create('iaaa_user', { userId, username: userId, password: '', createdAt: new Date(), updatedAt: new Date() })
+    }
+
+    const schedule = new ScheduleService(env.app, env.config)
+    const checked: string[] = []
+    let active = 0
+    let maxActive = 0
+    schedule.checkSingleUser = async (userId: string) => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      await new Promise(resolve => setTimeout(resolve, 50))
+      checked.push(userId)
+      active--
+      return 'success'
+    }
+    const summary = await schedule.checkDueUsers()
+
+    expect(maxActive).to.equal(2)
+    expect(checked).to.include.members(userIds)
+    expect(summary.success).to.equal(checked.length)
+    await env.app.database.remove('iaaa_user', { userId: userIds })
+  })
+})
+
+describeWatcher('check scheduling', { config: { checkCron: '0 */2 * * *' }, check: true }, env => {
+  /**
+   * 按给定配置启动定时任务，返回查询任务的 cron 表达式，以及触发一次查询任务并返回是否检查了到期用户的函数
+   * cron 服务在表达式无效时抛出错误，与 koishi-plugin-cron 一致
+   */
+  function startSchedule(overrides: Partial<typeof baseConfig> = {}) {
+    const tasks: [string, () => Promise<void>][] = []
+    const ctx = Object.create(env.app)
+    Object.defineProperty(ctx, 'cron', {
+      value: (expression: string, callback: () => Promise<void>) => {
+        if (expression.split(' ').length < 5) throw new Error(`Invalid cron expression: ${expression}`)
+        tasks.push([expression, callback])
+        return () => {}
+      },
+    })
+    const schedule = new ScheduleService(ctx, { ...env.config, ...overrides })
+    let checked = false
+    schedule.checkDueUsers = async () => {
+      checked = true
+      return null
+    }
+    schedule.startSchedule()
+    const [[expression, callback]] = tasks
+    const trigger = async () => {
+      checked = false
+      await callback()
+      return checked
+    }
+    return { expression, trigger }
+  }
+
+  it('checks due users at the configured cron times', async () => {
+    expect(startSchedule().expression).to.equal('0 */2 * * *')
+    expect(startSchedule({ checkCron: '' }).expression).to.equal('* * * * *')
+    expect(await startSchedule().trigger()).to.be.true
+  })
+
+  it('reports an invalid cron expression when starting', () => {
+    expect(() => startSchedule({ checkCron: 'every hour' })).to.throw('Invalid cron expression: every hour')
+  })
+
+  it('checks only within active hours, treating equal bounds as the whole day', async () => {
+    expect(await startSchedule({ activeHoursStart: clock(-3600000), activeHoursEnd: clock(3600000) }).trigger()).to.be.true
+    expect(await startSchedule({ activeHoursStart: clock(3600000), activeHoursEnd: clock(2 * 3600000) }).trigger()).to.be.false
+    expect(await startSchedule({ activeHoursStart: '00:00', activeHoursEnd: '24:00' }).trigger()).to.be.true
+    expect(await startSchedule({ activeHoursStart: clock(3600000), activeHoursEnd: clock(3600000) }).trigger()).to.be.true
+
+    // 跨过午夜的活跃时段（东八区 22:00 到次日 02:00）
+    expect(isInActiveHours('22:00', '02:00', Date.UTC(2025, 2, 1, 15))).to.be.true
+    expect(isInActiveHours('22:00', '02:00', Date.UTC(2025, 2, 1, 16, 30))).to.be.true
+    expect(isInActiveHours('22:00', '02:00', Date.UTC(2025, 2, 1, 18))).to.be.false
+    expect(isInActiveHours('22:00', '02:00', Date.UTC(2025, 2, 1, 4))).to.be.false
+  })
+
+  it('keeps per-user check intervals within the allowed range', async () => {
+    await env.client.shouldReply('blackboard.config.info', /按管理员设置的时间表（cron 表达式 0 \*\/2 \* \* \*）检查/)
+
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { checkInterval: 10 })
+    await env.client.shouldReply('blackboard.config.info', /每隔 30 分钟检查一次是否有新通知与未完成的 DDL（自行设置）/)
+
+    await env.app.database.set('bb_watcher_config', { userId: env.userId }, { checkInterval: 1000 })
+    await env.client.shouldReply('blackboard.config.info', /每隔 240 分钟检查一次/)
+    await env.app.database.set('iaaa_user', { userId: env.userId }, { nextCheckAt: new Date(Date.now() - 1000) })
+    expect(await env.schedule.checkDueUsers()).to.include({ success: 1, failure: 0, skipped: 0 })
+    const [iaaaUser] = await env.app.database.get('iaaa_user', { userId: env.userId })
+    expect(iaaaUser.nextCheckAt.getTime()).to.be.within(Date.now() + 239 * 60000, Date.now() + 246 * 60000)
+  })
+})
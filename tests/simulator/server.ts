@@ -0,0 +1,278 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { randomBytes } from 'crypto'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+
+/**
+ * 读取录制的教学网响应数据
+ */
+function loadFixture(name: string): string {
+  return readFileSync(resolve(__dirname, 'fixtures', name), 'utf8')
+}
+
+/**
+ * 本地的 IAAA 与教学网模拟服务器，按录制的数据实现插件用到的接口，用于离线的端到端测试
+ */
+export class BlackboardSimulator {
+  // 可以登录的 IAAA 账号
+  username = '2100012345'
+  password = 'correct-password'
+
+  // 当前的通知数据、日程数据，以及已提交的作业（content_id）
+  notices: any = JSON.parse(loadFixture('notices.json'))
+  calendar: any[] = []
+  submitted = new Set<string>()
+
+  // 可以下载的附件（按文件 ID，即链接中的 xid），以及附件被下载的次数
+  files = new Map<string, Buffer>()
+  fileDownloads = 0
+
+  // 各门课程（按课程 ID）「我的成绩」页面中的成绩项，score 为 - 表示尚未公布
+  grades: Record<string, { id: string, name: string, score: string, pointsPossible?: string, feedback?: string }[]> = {}
+
+  // 获取通知数据的次数，用于检查通知数据是否被重复获取
+  noticeRequests = 0
+
+  // 通过 IAAA 完成登录的次数，用于检查会话是否被复用
+  loginCount = 0
+
+  // 向 IAAA 发起登录请求的次数（包括失败的请求）
+  loginAttempts = 0
+
+  // 收到的每个请求的路径与时间，用于检查请求之间的间隔
+  requests: { path: string, time: number }[] = []
+
+  // 接下来的多少个请求返回 503，模拟教学网暂时不可用
+  unavailable = 0
+
+  private server: Server
+  private tokens = new Set<string>()
+  private sessions = new Set<string>()
+
+  constructor() {
+    for (const entry of JSON.parse(loadFixture('calendar.json'))) {
+      this.addCalendarEntry(entry)
+    }
+  }
+
+  /**
+   * 模拟服务器的地址，同时作为 IAAA 与教学网的地址
+   */
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+  }
+
+  /**
+   * 在随机端口上启动模拟服务器
+   */
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((e) => {
+        res.statusCode = 500
+        res.end(e.message)
+      })
+    })
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve))
+  }
+
+  /**
+   * 关闭模拟服务器
+   */
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()))
+  }
+
+  /**
+   * 发布新通知，dueInHours 表示作业在多少小时后截止
+   */
+  addNotice(entry: any) {
+    const { dueInHours, ...rest } = entry
+    const notice = { se_timestamp: Date.now(), ...rest }
+    if (dueInHours !== undefined) {
+      notice.itemSpecificData = {
+        notificationDetails: { dueDate: new Date(Date.now() + dueInHours * 3600000).toISOString() }
+      }
+    }
+    this.notices.sv_streamEntries.push(notice)
+  }
+
+  /**
+   * 添加日程，dueInHours 表示日程在多少小时后截止
+   */
+  addCalendarEntry(entry: any) {
+    const { dueInHours, ...rest } = entry
+    this.calendar.push({ ...rest, endDate: new Date(Date.now() + dueInHours * 3600000).toISOString() })
+  }
+
+  /**
+   * 修改已有日程，模拟教师调整截止时间或标题，dueInHours 表示修改后的日程在多少小时后截止
+   */
+  updateCalendarEntry(id: string, changes: { dueInHours?: number, title?: string }) {
+    const entry = this.calendar.find(entry => entry.id === id)
+    if (changes.dueInHours !== undefined) {
+      entry.endDate = new Date(Date.now() + changes.dueInHours * 3600000).toISOString()
+    }
+    if (changes.title !== undefined) {
+      entry.title = changes.title
+    }
+  }
+
+  /**
+   * 使所有教学网会话失效，模拟会话过期
+   */
+  expireSessions() {
+    this.sessions.clear()
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url, this.url)
+    const body = new URLSearchParams(await readBody(req))
+    this.requests.push({ path: url.pathname, time: Date.now() })
+
+    if (this.unavailable > 0) {
+      this.unavailable--
+      res.statusCode = 503
+      return res.end()
+    }
+
+    // IAAA 登录
+    if (url.pathname === '/iaaa/oauthlogin.do' && req.method === 'POST') {
+      this.loginAttempts++
+      if (body.get('appid') !== 'blackboard' || body.get('userName') !== this.username || body.get('password') !== this.password) {
+        return sendJSON(res, { success: false, errors: { code: 'E01', msg: '用户名或密码错误' } })
+      }
+      const token = randomBytes(8).toString('hex')
+      this.tokens.add(token)
+      return sendJSON(res, { success: true, token })
+    }
+
+    // 教学网登录，分配会话 cookie s_session_id
+    if (url.pathname === '/webapps/bb-sso-BBLEARN/execute/authValidate/campusLogin') {
+      const token = url.searchParams.get('token')
+      if (!this.tokens.delete(token)) {
+        return redirect(res, '/webapps/login/')
+      }
+      const sessionId = randomBytes(8).toString('hex')
+      this.sessions.add(sessionId)
+      this.loginCount++
+      res.setHeader('Set-Cookie', `s_session_id=${sessionId}; Path=/; HttpOnly`)
+      return sendHTML(res, '<html><head><title>教学网</title></head></html>')
+    }
+
+    if (url.pathname.startsWith('/webapps/login')) {
+      return sendHTML(res, '<html><head><title>登录</title></head></html>')
+    }
+
+    // 其余接口都需要有效的会话，否则重定向到登录页
+    const cookies = parseCookies(req.headers.cookie)
+    if (!this.sessions.has(cookies.s_session_id)) {
+      return redirect(res, '/webapps/login/')
+    }
+
+    if (url.pathname === '/webapps/streamViewer/streamViewer') {
+      if (req.method === 'GET') {
+        res.setHeader('Set-Cookie', `JSESSIONID=${randomBytes(8).toString('hex')}; Path=/webapps/streamViewer`)
+        return sendHTML(res, '<html><head><title>通知</title></head></html>')
+      }
+      if (body.get('cmd') === 'loadStream') {
+        this.noticeRequests++
+        return sendJSON(res, this.notices)
+      }
+    }
+
+    if (url.pathname === '/webapps/calendar/calendarData/selectedCalendarEvents') {
+      const start = Number(url.searchParams.get('start'))
+      const end = Number(url.searchParams.get('end'))
+      return sendJSON(res, this.calendar
+        .filter(entry => new Date(entry.endDate).getTime() >= start && new Date(entry.endDate).getTime() <= end)
+        .map(({ contentId, ...entry }) => entry))
+    }
+
+    if (url.pathname.startsWith('/webapps/calendar/launch/attempt/')) {
+      const id = decodeURIComponent(url.pathname.slice('/webapps/calendar/launch/attempt/'.length))
+      const entry = this.calendar.find(entry => entry.id === id)
+      if (!entry?.contentId) {
+        res.statusCode = 404
+        return res.end()
+      }
+      return redirect(res, `/webapps/assignment/uploadAssignment?content_id=${entry.contentId}`)
+    }
+
+    if (url.pathname === '/webapps/assignment/uploadAssignment') {
+      const contentId = url.searchParams.get('content_id')
+      const fixture = this.submitted.has(contentId) ? 'assignment_submitted.html' : 'assignment_unsubmitted.html'
+      return sendHTML(res, loadFixture(fixture))
+    }
+
+    if (url.pathname === '/webapps/bb-mygrades-BBLEARN/myGrades') {
+      return sendHTML(res, renderGrades(this.grades[url.searchParams.get('course_id')] || []))
+    }
+
+    if (url.pathname.startsWith('/bbcswebdav/')) {
+      const file = this.files.get(url.pathname.match(/xid-(\d+_\d+)/)?.[1])
+      if (!file) {
+        res.statusCode = 404
+        return res.end()
+      }
+      this.fileDownloads++
+      res.setHeader('Content-Type', 'application/octet-stream')
+      return res.end(file)
+    }
+
+    res.statusCode = 404
+    res.end()
+  }
+}
+
+/**
+ * 按教学网「我的成绩」页面的结构生成成绩列表
+ */
+function renderGrades(grades: BlackboardSimulator['grades'][string]): string {
+  const rows = grades.map(grade => `
+  <div id="${grade.id}" class="sortable_item_row graded_item_row row expanded" role="row">
+    <div class="cell gradable" role="rowheader">${grade.name}<div class="itemCat">作业</div></div>
+    <div class="cell activity timestamp"><span class="activityType">已评分</span></div>
+    <div class="cell grade" tabindex="0">
+      <span class="grade">${grade.score}</span>
+      ${grade.pointsPossible ? `<span class="pointsPossible clearfloats">/${grade.pointsPossible}</span>` : ''}
+    </div>
+    ${grade.feedback ? `<div id="feedbacktext_${grade.id}" class="vtbegenerated" style="display:none"><p>${grade.feedback}</p></div>` : ''}
+  </div>`)
+  return `<html><head><title>我的成绩</title></head><body><div id="grades_wrapper">${rows.join('')}
+</div></body></html>`
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', chunk => data += chunk)
+    req.on('end', () => resolve(data))
+    req.on('error', reject)
+  })
+}
+
+function parseCookies(header: string = ''): Record<string, string> {
+  const cookies: Record<string, string> = {}
+  for (const pair of header.split(';')) {
+    const [name, value] = pair.split('=')
+    if (name && value) cookies[name.trim()] = value.trim()
+  }
+  return cookies
+}
+
+function sendJSON(res: ServerResponse, data: any) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify(data))
+}
+
+function sendHTML(res: ServerResponse, html: string) {
+  res.setHeader('Content-Type', 'text/html; charset=utf-8')
+  res.end(html)
+}
+
+function redirect(res: ServerResponse, location: string) {
+  res.statusCode = 302
+  res.setHeader('Location', location)
+  res.end()
+}